@@ -1,8 +1,75 @@
+// Queues cached by the scheduled job; other registered queues are only
+// fetched by on-demand refreshes
 export const QUEUE_IDS_TO_CACHE = [420, 1700];
 
+export const QUEUE_ID_MAP = {
+    // Customs and old event queues
+    custom: 0,
+    snowdown_1v1: 72,
+    snowdown_2v2: 73,
+    hexakill_summoners_rift: 75,
+    urf_snowdown: 76,
+    one_for_all_snowdown: 78,
+    one_for_all_mirror_mode: 79,
+    urf: 83,
+    bot_urf: 91,
+    hexakill_crystal_scar: 98,
+    arurf_5v5: 100,
+
+    // 300 range: mostly older or special event queues
+    nemesis_draft: 310,
+    black_market_brawlers: 313,
+    definitely_not_dominion: 317,
+    all_random_summoners_rift: 325,
+
+    // Modern Summoner's Rift (400–499 range)
+    normal_draft: 400,
+    ranked_solo: 420,
+    normal_blind: 430,
+    ranked_flex: 440,
+    aram: 450,
+
+    // Event and rotating modes
+    blood_hunt_assassin: 600,
+    dark_star_singularity: 610,
+    clash: 700,
+    arurf: 900,
+
+    // Co-op vs AI
+    coop_vs_ai_intro: 830,
+    coop_vs_ai_beginner: 840,
+    coop_vs_ai_intermediate: 850,
+
+    // Special or event game modes
+    nexus_siege: 940,
+    doom_bots_doom: 950,
+    doom_bots_ranked: 960,
+    project_hunters: 1000,
+    snow_arurf: 1010,
+    one_for_all: 1020,
+    odyssey_extraction_intro: 1030,
+    odyssey_extraction_cadet: 1040,
+    odyssey_extraction_crewmember: 1050,
+    odyssey_extraction_captain: 1060,
+    odyssey_extraction_onslaught: 1070,
+    nexus_blitz: 1200,
+    ultimate_spellbook: 1400,
+    arena: 1700,
+} as const;
+
+// Queues with a handler in models/queues.ts
+export type RegisteredQueueType =
+    | "ranked_solo"
+    | "ranked_flex"
+    | "normal_draft"
+    | "aram"
+    | "clash"
+    | "arena";
+
 export const QUEUE_ID_NAMES: Record<number, string> = {
     420: "Ranked Solo",
     1700: "Arena",
+    400: "Normal Draft",
     430: "Normal Blind",
     440: "Ranked Flex",
     450: "ARAM",
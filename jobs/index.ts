@@ -4,6 +4,9 @@ import {
     deleteMatchesOlderThan,
     deleteMatchesForRemovedSummoners,
 } from "../models/matches.js";
+import { deleteCacheRunsOlderThan } from "../models/cacheRuns.js";
+import { refreshSummonerNames } from "../models/summoners.js";
+import { cacheMasteryData } from "../models/mastery.js";
 import { logger } from "../utils/logger.js";
 
 export function initCronJobs(): void {
@@ -18,6 +21,28 @@ export function initCronJobs(): void {
         }
     });
 
+    // Every day at 04:00
+    cron.schedule("0 4 * * *", async () => {
+        logger.info("Cron job started: refreshing summoner Riot IDs");
+        try {
+            const renamedCount = await refreshSummonerNames();
+            logger.success(`Cron job finished: ${renamedCount} summoner(s) renamed`);
+        } catch (error) {
+            logger.error("Error in refresh summoner names cron job", error);
+        }
+    });
+
+    // Every 6 hours, at half past
+    cron.schedule("30 */6 * * *", async () => {
+        logger.info("Cron job started: caching champion mastery");
+        try {
+            const changedCount = await cacheMasteryData();
+            logger.success(`Cron job finished: ${changedCount} mastery change(s) saved`);
+        } catch (error) {
+            logger.error("Error in cache mastery cron job", error);
+        }
+    });
+
     // Every day at 05:00
     cron.schedule("0 5 * * *", async () => {
         logger.info("Cron job started: deleting old matches (31 days)");
@@ -30,6 +55,17 @@ export function initCronJobs(): void {
         }
     });
 
+    // Every day at 05:30
+    cron.schedule("30 5 * * *", async () => {
+        logger.info("Cron job started: deleting old cache runs (90 days)");
+        try {
+            const deletedCount = await deleteCacheRunsOlderThan(90);
+            logger.success(`Cron job finished: deleted ${deletedCount} cache runs older than 90 day(s)`);
+        } catch (error) {
+            logger.error("Error in delete old cache runs cron job", error);
+        }
+    });
+
     // Every Sunday at 03:00 AM
     cron.schedule("0 3 * * 0", async () => {
         logger.info("Cron job started: deleting orphaned matches for removed summoners");
@@ -0,0 +1,176 @@
+import prisma from "../utils/prisma.js";
+import { logger } from "../utils/logger.js";
+import { getQueueName } from "../const/queues.js";
+
+export type CacheRunTrigger = "cron" | "script" | "refresh";
+
+export interface CacheRunErrorData {
+    summonerPuuid: string;
+    queueId: number;
+    matchId: string | null;
+    statusCode: number | null;
+    message: string;
+}
+
+function serializeMatchesSaved(matchesSaved: unknown) {
+    return Object.entries(matchesSaved as Record<string, number>).map(
+        ([queueId, count]) => ({
+            queueId: Number(queueId),
+            queueName: getQueueName(Number(queueId)),
+            count,
+        })
+    );
+}
+
+export async function startCacheRun(
+    trigger: CacheRunTrigger,
+    summonersTotal: number,
+    queueIds: number[]
+): Promise<string> {
+    try {
+        const run = await prisma.cacheRun.create({
+            data: {
+                trigger,
+                status: "running",
+                summoners_total: summonersTotal,
+                matches_saved: Object.fromEntries(
+                    queueIds.map((queueId) => [queueId, 0])
+                ),
+            },
+        });
+        return run.id;
+    } catch (error) {
+        logger.error("Models > cacheRuns > Error starting cache run", error);
+        throw error;
+    }
+}
+
+export async function updateCacheRunProgress(
+    runId: string,
+    progress: {
+        summonersProcessed: number;
+        matchesSaved: Record<number, number>;
+        truncatedWindows: number;
+    },
+    errors: CacheRunErrorData[]
+): Promise<void> {
+    try {
+        await prisma.$transaction([
+            prisma.cacheRun.update({
+                where: { id: runId },
+                data: {
+                    summoners_processed: progress.summonersProcessed,
+                    matches_saved: progress.matchesSaved,
+                    truncated_windows: progress.truncatedWindows,
+                },
+            }),
+            prisma.cacheRunError.createMany({
+                data: errors.map((error) => ({
+                    run_id: runId,
+                    summoner_puuid: error.summonerPuuid,
+                    queue_id: error.queueId,
+                    match_id: error.matchId,
+                    status_code: error.statusCode,
+                    message: error.message,
+                })),
+            }),
+        ]);
+    } catch (error) {
+        logger.error(
+            `Models > cacheRuns > Error updating cache run ${runId}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export async function finishCacheRun(
+    runId: string,
+    status: "completed" | "failed",
+    errorMessage?: string
+): Promise<void> {
+    try {
+        await prisma.cacheRun.update({
+            where: { id: runId },
+            data: {
+                status,
+                error: errorMessage ?? null,
+                finished_at: new Date(),
+            },
+        });
+    } catch (error) {
+        logger.error(
+            `Models > cacheRuns > Error finishing cache run ${runId}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export async function getCacheRuns(limit: number = 20, trigger?: string) {
+    try {
+        const runs = await prisma.cacheRun.findMany({
+            where: trigger ? { trigger } : undefined,
+            orderBy: { started_at: "desc" },
+            take: limit,
+            include: {
+                _count: { select: { errors: true } },
+            },
+        });
+
+        return runs.map(({ _count, ...run }) => ({
+            ...run,
+            matches_saved: serializeMatchesSaved(run.matches_saved),
+            error_count: _count.errors,
+        }));
+    } catch (error) {
+        logger.error("Models > cacheRuns > Error fetching cache runs", error);
+        throw new Error("Database query failed");
+    }
+}
+
+export async function getCacheRunById(runId: string) {
+    try {
+        const run = await prisma.cacheRun.findUnique({
+            where: { id: runId },
+            include: {
+                errors: { orderBy: { created_at: "asc" } },
+            },
+        });
+
+        if (!run) {
+            logger.debug(`Models > cacheRuns > Cache run ${runId} not found`);
+            return null;
+        }
+
+        return {
+            ...run,
+            matches_saved: serializeMatchesSaved(run.matches_saved),
+        };
+    } catch (error) {
+        logger.error(
+            `Models > cacheRuns > Error fetching cache run ${runId}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+export async function deleteCacheRunsOlderThan(days = 90): Promise<number> {
+    try {
+        const cutoffDate = new Date();
+        cutoffDate.setDate(cutoffDate.getDate() - days);
+
+        const result = await prisma.cacheRun.deleteMany({
+            where: { started_at: { lt: cutoffDate } },
+        });
+
+        logger.info(
+            `Models > cacheRuns > Deleted ${result.count} cache runs older than ${days} days`
+        );
+        return result.count;
+    } catch (error) {
+        logger.error("Models > cacheRuns > Error deleting old cache runs", error);
+        throw error;
+    }
+}
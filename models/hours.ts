@@ -1,4 +1,6 @@
-import prisma from "../utils/prisma.js";
+import { getQueueHandler } from "./queues.js";
+import { resolveStatsFilter } from "./patches.js";
+import { MatchFilter } from "../types/matches.js";
 import { logger } from "../utils/logger.js";
 
 interface PlaytimeResult {
@@ -17,36 +19,31 @@ function formatPlaytime(seconds: number): string {
 export async function getSummonerPlaytime(
     summonerPuuid: string,
     range: number,
-    queueType: string = "ranked_solo"
+    queueType: string = "ranked_solo",
+    filter: MatchFilter = {}
 ): Promise<PlaytimeResult> {
     try {
         const lowerBound = new Date();
         lowerBound.setDate(lowerBound.getDate() - range);
 
-        let matches;
-        if (queueType === "arena") {
-            matches = await prisma.arenaMatch.findMany({
-                where: {
-                    summoner_puuid: summonerPuuid,
-                    game_start_timestamp: { gte: BigInt(lowerBound.getTime()) },
-                },
-                select: { game_duration: true },
-            });
-        } else if (queueType === "ranked_solo") {
-            matches = await prisma.rankedSoloMatch.findMany({
-                where: {
-                    summoner_puuid: summonerPuuid,
-                    game_start_timestamp: { gte: BigInt(lowerBound.getTime()) },
-                },
-                select: { game_duration: true },
-            });
-        } else {
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
             logger.warn(
                 `Models > hours > Queue type '${queueType}' not supported`
             );
             return { playtimeSeconds: 0, matchesPlayed: 0, pretty: "0h 0m 0s" };
         }
 
+        const matches = await handler.storage.findMany({
+            where: {
+                ...(await resolveStatsFilter(filter)),
+                summoner_puuid: summonerPuuid,
+                queue_id: handler.queueId,
+                game_start_timestamp: { gte: BigInt(lowerBound.getTime()) },
+            },
+            select: { game_duration: true },
+        });
+
         if (!matches.length) {
             logger.debug(
                 `Models > hours > No ${queueType} matches found for ${summonerPuuid} in past ${range} days`
@@ -55,7 +52,7 @@ export async function getSummonerPlaytime(
         }
 
         const totalSeconds = matches.reduce(
-            (sum, match) => sum + match.game_duration,
+            (sum: number, match) => sum + match.game_duration,
             0
         );
 
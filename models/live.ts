@@ -0,0 +1,173 @@
+import { riotGet, getRiotStatusCode } from "../utils/riotClient.js";
+import { logger } from "../utils/logger.js";
+import { RiotCurrentGameInfo } from "../types/riot.js";
+import { getQueueName } from "../const/queues.js";
+import { getSummonersByGuildId } from "./summoners.js";
+
+// Bots poll this often; a minute is fresh enough to say who's in game
+const LIVE_CACHE_TTL_MS = 60 * 1000;
+
+interface CachedActiveGame {
+    game: RiotCurrentGameInfo | null;
+    fetchedAt: number;
+}
+
+interface ActiveGameCacheEntry {
+    // Shared by every caller while the request is in flight
+    request: Promise<CachedActiveGame>;
+    // Infinity until the request settles
+    expiresAt: number;
+}
+
+const activeGameCache = new Map<string, ActiveGameCacheEntry>();
+
+function pruneExpiredGames(): void {
+    const now = Date.now();
+    for (const [puuid, entry] of activeGameCache) {
+        if (entry.expiresAt <= now) {
+            activeGameCache.delete(puuid);
+        }
+    }
+}
+
+async function requestActiveGame(summoner: {
+    puuid: string;
+    region: string;
+}): Promise<CachedActiveGame> {
+    const encodedPuuid = encodeURIComponent(summoner.puuid);
+    let game: RiotCurrentGameInfo | null = null;
+
+    try {
+        game = await riotGet<RiotCurrentGameInfo>(
+            summoner.region,
+            "spectator-v5.getCurrentGameInfoByPuuid",
+            `/lol/spectator/v5/active-games/by-summoner/${encodedPuuid}`
+        );
+    } catch (error) {
+        // 404 means the summoner simply isn't in a game
+        if (getRiotStatusCode(error) !== 404) {
+            throw error;
+        }
+    }
+
+    return { game, fetchedAt: Date.now() };
+}
+
+/**
+ * Returns the summoner's cached game, joining a request already in flight
+ * for them instead of starting another. Failed requests aren't cached.
+ */
+function fetchActiveGame(summoner: {
+    puuid: string;
+    region: string;
+}): Promise<CachedActiveGame> {
+    const cached = activeGameCache.get(summoner.puuid);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.request;
+    }
+
+    const entry: ActiveGameCacheEntry = {
+        request: requestActiveGame(summoner),
+        expiresAt: Infinity,
+    };
+    activeGameCache.set(summoner.puuid, entry);
+
+    entry.request.then(
+        ({ fetchedAt }) => {
+            entry.expiresAt = fetchedAt + LIVE_CACHE_TTL_MS;
+        },
+        () => {
+            if (activeGameCache.get(summoner.puuid) === entry) {
+                activeGameCache.delete(summoner.puuid);
+            }
+        }
+    );
+
+    return entry.request;
+}
+
+function getGameLengthSeconds(
+    game: RiotCurrentGameInfo,
+    fetchedAt: number
+): number {
+    if (game.gameStartTime > 0) {
+        return Math.floor((Date.now() - game.gameStartTime) / 1000);
+    }
+    // Still loading: advance the reported length by the cache age
+    return game.gameLength + Math.floor((Date.now() - fetchedAt) / 1000);
+}
+
+/**
+ * Returns the guild's summoners that are currently in a game, each with the
+ * other tracked summoners from the guild playing in that same game.
+ */
+export async function getLiveGamesByGuildId(guildId: string) {
+    try {
+        pruneExpiredGames();
+
+        const summoners = await getSummonersByGuildId(guildId);
+        const results = await Promise.all(
+            summoners.map(async (summoner) => {
+                try {
+                    return { summoner, entry: await fetchActiveGame(summoner) };
+                } catch (error) {
+                    logger.error(
+                        `Models > live > Error fetching active game for ${summoner.name}`,
+                        error
+                    );
+                    return { summoner, entry: null };
+                }
+            })
+        );
+
+        const inGame = results.flatMap(({ summoner, entry }) => {
+            if (!entry?.game) return [];
+            return [{ summoner, game: entry.game, fetchedAt: entry.fetchedAt }];
+        });
+
+        return inGame.map(({ summoner, game, fetchedAt }) => {
+            const participant = game.participants.find(
+                (p) => p.puuid === summoner.puuid
+            );
+            const queueId = game.gameQueueConfigId ?? 0;
+
+            const trackedInGame = inGame
+                .filter(
+                    (other) =>
+                        other.summoner.puuid !== summoner.puuid &&
+                        other.game.gameId === game.gameId
+                )
+                .map((other) => {
+                    const otherParticipant = game.participants.find(
+                        (p) => p.puuid === other.summoner.puuid
+                    );
+                    return {
+                        name: other.summoner.name,
+                        puuid: other.summoner.puuid,
+                        championId: otherParticipant?.championId ?? null,
+                        sameTeam:
+                            otherParticipant?.teamId === participant?.teamId,
+                    };
+                });
+
+            return {
+                name: summoner.name,
+                puuid: summoner.puuid,
+                gameId: game.gameId,
+                championId: participant?.championId ?? null,
+                teamId: participant?.teamId ?? null,
+                queueId,
+                queueName: getQueueName(queueId),
+                gameMode: game.gameMode,
+                gameLengthSeconds: getGameLengthSeconds(game, fetchedAt),
+                trackedSummonersInGame: trackedInGame,
+            };
+        });
+    } catch (error) {
+        logger.error(
+            `Models > live > Error fetching live games for guild ${guildId}`,
+            error
+        );
+        throw error;
+    }
+}
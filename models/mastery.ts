@@ -0,0 +1,199 @@
+import prisma from "../utils/prisma.js";
+import { riotGet } from "../utils/riotClient.js";
+import { logger } from "../utils/logger.js";
+import { RiotChampionMastery } from "../types/riot.js";
+import { getUniqueSummoners } from "./summoners.js";
+
+async function fetchChampionMasteries(
+    summonerPuuid: string,
+    region: string
+): Promise<RiotChampionMastery[]> {
+    const encodedPuuid = encodeURIComponent(summonerPuuid);
+    const masteries = await riotGet<RiotChampionMastery[]>(
+        region,
+        "champion-mastery-v4.getAllChampionMasteriesByPUUID",
+        `/lol/champion-mastery/v4/champion-masteries/by-puuid/${encodedPuuid}`
+    );
+    return masteries ?? [];
+}
+
+/**
+ * Stores a summoner's current mastery per champion and appends a history row
+ * for every champion whose points changed. Returns the number of changes.
+ */
+export async function cacheSummonerMastery(summoner: {
+    name: string;
+    puuid: string;
+    region: string;
+}): Promise<number> {
+    try {
+        const masteries = await fetchChampionMasteries(
+            summoner.puuid,
+            summoner.region
+        );
+
+        const existing = await prisma.championMastery.findMany({
+            where: { summoner_puuid: summoner.puuid },
+            select: { champion_id: true, champion_points: true },
+        });
+        const existingPoints = new Map(
+            existing.map((m) => [m.champion_id, m.champion_points])
+        );
+
+        const changed = masteries.filter(
+            (m) => existingPoints.get(m.championId) !== m.championPoints
+        );
+        if (changed.length === 0) {
+            return 0;
+        }
+
+        await prisma.$transaction([
+            ...changed.map((m) =>
+                prisma.championMastery.upsert({
+                    where: {
+                        summoner_puuid_champion_id: {
+                            summoner_puuid: summoner.puuid,
+                            champion_id: m.championId,
+                        },
+                    },
+                    update: {
+                        champion_level: m.championLevel,
+                        champion_points: m.championPoints,
+                        last_play_time: BigInt(m.lastPlayTime),
+                    },
+                    create: {
+                        summoner_puuid: summoner.puuid,
+                        champion_id: m.championId,
+                        champion_level: m.championLevel,
+                        champion_points: m.championPoints,
+                        last_play_time: BigInt(m.lastPlayTime),
+                    },
+                })
+            ),
+            prisma.championMasterySnapshot.createMany({
+                data: changed.map((m) => ({
+                    summoner_puuid: summoner.puuid,
+                    champion_id: m.championId,
+                    champion_level: m.championLevel,
+                    champion_points: m.championPoints,
+                })),
+            }),
+        ]);
+
+        logger.debug(
+            `Models > mastery > ${summoner.name}: mastery changed on ${changed.length} champion(s)`
+        );
+        return changed.length;
+    } catch (error) {
+        logger.error(
+            `Models > mastery > Error caching mastery for ${summoner.name}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export async function cacheMasteryData(): Promise<number> {
+    const summoners = await getUniqueSummoners();
+    let changed = 0;
+    let failed = 0;
+
+    for (const summoner of summoners) {
+        try {
+            changed += await cacheSummonerMastery(summoner);
+        } catch {
+            // Already logged; carry on with the remaining summoners
+            failed++;
+        }
+    }
+
+    logger.success(
+        `Models > mastery > Mastery caching complete: ${changed} change(s) across ${summoners.length} summoners (${failed} failed)`
+    );
+    return changed;
+}
+
+export async function getSummonerMastery(
+    summonerPuuid: string,
+    limit?: number
+) {
+    try {
+        const masteries = await prisma.championMastery.findMany({
+            where: { summoner_puuid: summonerPuuid },
+            orderBy: { champion_points: "desc" },
+            take: limit,
+        });
+
+        return masteries.map((m) => ({
+            champion_id: m.champion_id,
+            champion_level: m.champion_level,
+            champion_points: m.champion_points,
+            last_play_time: Number(m.last_play_time),
+            updated_at: m.updated_at,
+        }));
+    } catch (error) {
+        logger.error(
+            `Models > mastery > Error fetching mastery for ${summonerPuuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+/**
+ * Mastery figures used by the guild mastery rankings: the most points on a
+ * single champion, and the points gained since `startDate` across all
+ * champions (measured against the last snapshot at or before it).
+ */
+export async function fetchSummonerMasteryStats(
+    summonerPuuid: string,
+    startDate: Date
+): Promise<{ topChampionPoints: number; masteryGained: number } | null> {
+    try {
+        const current = await prisma.championMastery.findMany({
+            where: { summoner_puuid: summonerPuuid },
+            select: { champion_id: true, champion_points: true },
+        });
+        if (current.length === 0) {
+            return null;
+        }
+
+        const baselines = await prisma.championMasterySnapshot.findMany({
+            where: {
+                summoner_puuid: summonerPuuid,
+                captured_at: { lte: startDate },
+            },
+            orderBy: { captured_at: "desc" },
+            distinct: ["champion_id"],
+            select: { champion_id: true, champion_points: true },
+        });
+
+        // Without any history before startDate there's nothing to compare to
+        const baselinePoints = new Map(
+            baselines.map((b) => [b.champion_id, b.champion_points])
+        );
+        const masteryGained =
+            baselines.length === 0
+                ? 0
+                : current.reduce(
+                      (sum, m) =>
+                          sum +
+                          m.champion_points -
+                          (baselinePoints.get(m.champion_id) ?? 0),
+                      0
+                  );
+
+        return {
+            topChampionPoints: Math.max(
+                ...current.map((m) => m.champion_points)
+            ),
+            masteryGained,
+        };
+    } catch (error) {
+        logger.error(
+            `Models > mastery > Error fetching mastery stats for ${summonerPuuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
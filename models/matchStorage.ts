@@ -0,0 +1,222 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../utils/prisma.js";
+import { RiotMatchResponse } from "../types/riot.js";
+import { getPatchFromVersion, isRemake } from "../utils/processing.js";
+
+/**
+ * Filters that apply to every match table (the columns they all share).
+ */
+export type MatchWhereInput = Prisma.RankedSoloMatchWhereInput &
+    Prisma.ArenaMatchWhereInput;
+
+export interface MatchQuery {
+    where: MatchWhereInput;
+    orderBy?:
+        | { game_start_timestamp: Prisma.SortOrder }
+        | Record<string, Prisma.SortOrder>[];
+    select?: Record<string, boolean>;
+    take?: number;
+}
+
+/**
+ * A table that per-summoner match rows are stored in.
+ * Several queues can share one storage; rows are told apart by `queue_id`.
+ */
+export interface MatchStorage {
+    name: string;
+    fields: readonly string[];
+    findMany(query: MatchQuery): Promise<any[]>;
+    count(where: MatchWhereInput): Promise<number>;
+    deleteMany(where: MatchWhereInput): Promise<number>;
+    countByPatch(
+        where: MatchWhereInput
+    ): Promise<{ patch: string; count: number }[]>;
+    save(matchData: RiotMatchResponse, summonerPuuid: string): Promise<void>;
+}
+
+function calculateKDA(kills: number, deaths: number, assists: number): number {
+    return deaths === 0 ? kills + assists : (kills + assists) / deaths;
+}
+
+function findParticipant(matchData: RiotMatchResponse, summonerPuuid: string) {
+    const participant = matchData.info.participants.find(
+        (p) => p.puuid === summonerPuuid
+    );
+
+    if (!participant) {
+        throw new Error(`Participant not found for ${summonerPuuid}`);
+    }
+
+    return participant;
+}
+
+async function saveMatchData(
+    matchData: RiotMatchResponse,
+    summonerPuuid: string
+): Promise<void> {
+    const participant = findParticipant(matchData, summonerPuuid);
+    const challenges = participant.challenges || {};
+
+    await prisma.rankedSoloMatch.create({
+        data: {
+            match_id: matchData.metadata.matchId,
+            summoner_puuid: summonerPuuid,
+            end_of_game_result: matchData.info.endOfGameResult,
+            game_creation: BigInt(matchData.info.gameCreation),
+            game_duration: matchData.info.gameDuration,
+            game_end_timestamp: matchData.info.gameEndTimestamp
+                ? BigInt(matchData.info.gameEndTimestamp)
+                : null,
+            game_id: BigInt(matchData.info.gameId),
+            game_mode: matchData.info.gameMode,
+            game_name: matchData.info.gameName,
+            game_start_timestamp: BigInt(matchData.info.gameStartTimestamp),
+            game_type: matchData.info.gameType,
+            game_version: matchData.info.gameVersion,
+            patch: getPatchFromVersion(matchData.info.gameVersion),
+            map_id: matchData.info.mapId,
+            queue_id: matchData.info.queueId,
+            champion_id: participant.championId,
+            champion_name: participant.championName,
+            win: participant.win,
+            kills: participant.kills,
+            deaths: participant.deaths,
+            assists: participant.assists,
+            kda: calculateKDA(
+                participant.kills,
+                participant.deaths,
+                participant.assists
+            ),
+            solo_kills: challenges.soloKills ?? 0,
+            vision_score: participant.visionScore ?? 0,
+            team_damage_percentage: challenges.teamDamagePercentage ?? 0,
+            kill_participation: challenges.killParticipation ?? 0,
+            gold_per_minute: challenges.goldPerMinute ?? 0,
+            damage_per_minute: challenges.damagePerMinute ?? 0,
+            damage_to_champions: participant.totalDamageDealtToChampions,
+            enemy_missing_pings: participant.enemyMissingPings,
+            assist_me_pings: participant.assistMePings,
+            control_wards_placed: challenges.controlWardsPlaced,
+            ability_uses: challenges.abilityUses ?? 0,
+            scuttle_crab_kills: challenges.scuttleCrabKills ?? 0,
+            game_surrendered: participant.gameEndedInSurrender,
+            is_remake: isRemake(matchData, participant),
+        },
+    });
+}
+
+async function saveArenaMatchData(
+    matchData: RiotMatchResponse,
+    summonerPuuid: string
+): Promise<void> {
+    const participant = findParticipant(matchData, summonerPuuid);
+
+    await prisma.arenaMatch.create({
+        data: {
+            match_id: matchData.metadata.matchId,
+            summoner_puuid: summonerPuuid,
+            end_of_game_result: matchData.info.endOfGameResult,
+            game_creation: BigInt(matchData.info.gameCreation),
+            game_duration: matchData.info.gameDuration,
+            game_end_timestamp: matchData.info.gameEndTimestamp
+                ? BigInt(matchData.info.gameEndTimestamp)
+                : null,
+            game_id: BigInt(matchData.info.gameId),
+            game_mode: matchData.info.gameMode,
+            game_name: matchData.info.gameName,
+            game_start_timestamp: BigInt(matchData.info.gameStartTimestamp),
+            game_type: matchData.info.gameType,
+            game_version: matchData.info.gameVersion,
+            patch: getPatchFromVersion(matchData.info.gameVersion),
+            map_id: matchData.info.mapId,
+            queue_id: matchData.info.queueId,
+            champion_id: participant.championId,
+            champion_name: participant.championName,
+            win: participant.win,
+            kills: participant.kills,
+            deaths: participant.deaths,
+            assists: participant.assists,
+            kda: calculateKDA(
+                participant.kills,
+                participant.deaths,
+                participant.assists
+            ),
+            placement: participant.placement ?? 0,
+            subteam_placement: participant.subteamPlacement ?? 0,
+            player_subteam_id: participant.playerSubteamId ?? 0,
+            player_augment_1: participant.playerAugment1 ?? 0,
+            player_augment_2: participant.playerAugment2 ?? 0,
+            player_augment_3: participant.playerAugment3 ?? 0,
+            player_augment_4: participant.playerAugment4 ?? 0,
+            player_augment_5: participant.playerAugment5 ?? 0,
+            player_augment_6: participant.playerAugment6 ?? 0,
+            damage_to_champions: participant.totalDamageDealtToChampions,
+            item_0: participant.item0 ?? 0,
+            item_1: participant.item1 ?? 0,
+            item_2: participant.item2 ?? 0,
+            item_3: participant.item3 ?? 0,
+            item_4: participant.item4 ?? 0,
+            item_5: participant.item5 ?? 0,
+            item_6: participant.item6 ?? 0,
+            is_remake: isRemake(matchData, participant),
+        },
+    });
+}
+
+// Summoner's Rift and ARAM queues share the ranked_solo_matches table
+export const standardMatchStorage: MatchStorage = {
+    name: "Standard",
+    fields: Object.values(Prisma.RankedSoloMatchScalarFieldEnum),
+    async findMany(query) {
+        return await prisma.rankedSoloMatch.findMany(
+            query as Prisma.RankedSoloMatchFindManyArgs
+        );
+    },
+    async count(where) {
+        return await prisma.rankedSoloMatch.count({ where });
+    },
+    async deleteMany(where) {
+        const result = await prisma.rankedSoloMatch.deleteMany({ where });
+        return result.count;
+    },
+    async countByPatch(where) {
+        const groups = await prisma.rankedSoloMatch.groupBy({
+            by: ["patch"],
+            where,
+            _count: { _all: true },
+        });
+        return groups.map((g) => ({ patch: g.patch, count: g._count._all }));
+    },
+    save: saveMatchData,
+};
+
+export const arenaMatchStorage: MatchStorage = {
+    name: "Arena",
+    fields: Object.values(Prisma.ArenaMatchScalarFieldEnum),
+    async findMany(query) {
+        return await prisma.arenaMatch.findMany(
+            query as Prisma.ArenaMatchFindManyArgs
+        );
+    },
+    async count(where) {
+        return await prisma.arenaMatch.count({ where });
+    },
+    async deleteMany(where) {
+        const result = await prisma.arenaMatch.deleteMany({ where });
+        return result.count;
+    },
+    async countByPatch(where) {
+        const groups = await prisma.arenaMatch.groupBy({
+            by: ["patch"],
+            where,
+            _count: { _all: true },
+        });
+        return groups.map((g) => ({ patch: g.patch, count: g._count._all }));
+    },
+    save: saveArenaMatchData,
+};
+
+export const MATCH_STORAGES: MatchStorage[] = [
+    standardMatchStorage,
+    arenaMatchStorage,
+];
@@ -1,292 +1,281 @@
-import axios from "axios";
+import { Prisma } from "@prisma/client";
 import prisma from "../utils/prisma.js";
 import {
-    checkIfCachedWithinRange,
     updateCachedTimestamp,
     getUniqueSummoners,
+    getSyncState,
+    updateSyncState,
 } from "./summoners.js";
 import { getAreaFromRegion } from "../utils/processing.js";
+import { riotGet, getRiotStatusCode } from "../utils/riotClient.js";
 import { RiotMatchResponse } from "../types/riot.js";
 import { logger } from "../utils/logger.js";
 import { QUEUE_IDS_TO_CACHE, getQueueName } from "../const/queues.js";
+import { getQueueHandler, getQueueHandlerById } from "./queues.js";
+import { MATCH_STORAGES, MatchWhereInput } from "./matchStorage.js";
+import { enrichMatch } from "./staticData.js";
+import { resolveMatchFilter } from "./patches.js";
+import { saveMatchParticipants } from "./participants.js";
+import {
+    MatchFilter,
+    MatchListOptions,
+    MatchSortKey,
+} from "../types/matches.js";
+import { encodeMatchCursor } from "../utils/filters.js";
+import {
+    CacheRunErrorData,
+    CacheRunTrigger,
+    startCacheRun,
+    updateCacheRunProgress,
+    finishCacheRun,
+} from "./cacheRuns.js";
+import {
+    RANKED_QUEUE_IDS,
+    snapshotSummonerRanks,
+    recordLpChanges,
+} from "./ranks.js";
 
-const RIOT_API_KEY = process.env.RIOT_API_KEY;
+const DAY_MS = 24 * 60 * 60 * 1000;
 const DEFAULT_FETCH_DAYS = 30;
-const RECENT_CACHE_DAYS = 1;
 const DAYS_PER_BATCH = 5;
+const MATCH_IDS_PER_PAGE = 100;
+const MAX_MATCH_ID_PAGES =
+    parseInt(process.env.MAX_MATCH_ID_PAGES ?? "", 10) || 10;
+// Windows that hit the page cap are halved down to this size (seconds)
+const MIN_SPLIT_WINDOW_SECONDS = 60 * 60;
+// Games only show up in match history once they end, so anything that started
+// this long before a completed sync may still have been in progress
+const IN_PROGRESS_GRACE_MS = 2 * 60 * 60 * 1000;
+
+// Tail of the work queued per summoner. The cron job and on-demand refreshes
+// both go through cacheMatchData, so a summoner is only synced by one at a time
+const summonerLocks = new Map<string, Promise<void>>();
+
+interface SummonerSyncResult {
+    matchesSaved: number;
+    truncatedWindows: number;
+    errors: CacheRunErrorData[];
+}
 
-export const QUEUE_ID_MAP = {
-    // 0–100 range, including customs and old event queues
-    custom: 0,
-    snowdown_1v1: 72,
-    snowdown_2v2: 73,
-    hexakill_summoners_rift: 75,
-    urf_snowdown: 76,
-    one_for_all_snowdown: 78,
-    one_for_all_mirror_mode: 79,
-    urf: 83,
-    bot_urf: 91,
-
-    // 300 range: mostly older or special event queues
-    showdown_1v1: 72,
-    showdown_2v2: 73,
-    hexakill_crystal_scar: 98,
-    arurf_5v5: 100,
-    nemesis_draft: 310,
-    black_market_brawlers: 313,
-    definitely_not_dominion: 317,
-    all_random_summoners_rift: 325,
-    draft_summoners_rift_6: 400,
-
-    // Modern Summoner's Rift (400–499 range)
-    normal_draft: 400,
-    ranked_solo: 420,
-    normal_blind: 430,
-    ranked_flex: 440,
-    aram: 450,
-    blood_hunt_assassin: 600,
-    dark_star_singularity: 610,
-    clash: 700,
-    arurf: 900,
-
-    // Co-op vs AI
-    coop_vs_ai_intro: 830,
-    coop_vs_ai_beginner: 840,
-    coop_vs_ai_intermediate: 850,
-
-    // Special or event game modes
-    nexus_siege: 940,
-    doom_bots_doom: 950,
-    doom_bots_ranked: 960,
-    project_hunters: 1000,
-    snow_arurf: 1010,
-    one_for_all: 1020,
-    odyssey_extraction_intro: 1030,
-    odyssey_extraction_cadet: 1040,
-    odyssey_extraction_crewmember: 1050,
-    odyssey_extraction_captain: 1060,
-    odyssey_extraction_onslaught: 1070,
-    nexus_blitz: 1200,
-    ultimate_spellbook: 1400,
-    arena: 1700,
-} as const;
-
-function calculateKDA(kills: number, deaths: number, assists: number): number {
-    return deaths === 0 ? kills + assists : (kills + assists) / deaths;
+interface CacheMatchDataOptions {
+    trigger?: CacheRunTrigger;
+    // Defaults to every tracked summoner
+    summoners?: { name: string; puuid: string; region: string }[];
+    onQueueComplete?: (queueId: number, matchesSaved: number) => void;
 }
 
+function toCacheRunError(
+    summonerPuuid: string,
+    queueId: number,
+    matchId: string | null,
+    error: unknown
+): CacheRunErrorData {
+    return {
+        summonerPuuid,
+        queueId,
+        matchId,
+        statusCode: getRiotStatusCode(error),
+        message: error instanceof Error ? error.message : String(error),
+    };
+}
+
+/**
+ * Pages through match IDs in a time window until Riot returns a short page.
+ * `truncated` is set when MAX_MATCH_ID_PAGES was reached with more IDs left.
+ */
 async function fetchMatchIds(
     summonerPuuid: string,
     area: string,
     startTimestamp: number,
     endTimestamp: number,
     queueId: number
-): Promise<string[]> {
-    const url = `https://${area}.api.riotgames.com/lol/match/v5/matches/by-puuid/${summonerPuuid}/ids?startTime=${startTimestamp}&endTime=${endTimestamp}&queueId=${queueId}&start=0&count=100&api_key=${RIOT_API_KEY}`;
-    const response = await axios.get<string[]>(url);
-    return response.data;
+): Promise<{ matchIds: string[]; truncated: boolean }> {
+    const matchIds: string[] = [];
+
+    for (let page = 0; page < MAX_MATCH_ID_PAGES; page++) {
+        const start = page * MATCH_IDS_PER_PAGE;
+        const pageIds = await riotGet<string[]>(
+            area,
+            "match-v5.getMatchIdsByPUUID",
+            `/lol/match/v5/matches/by-puuid/${summonerPuuid}/ids?startTime=${startTimestamp}&endTime=${endTimestamp}&queueId=${queueId}&start=${start}&count=${MATCH_IDS_PER_PAGE}`
+        );
+        matchIds.push(...pageIds);
+
+        if (pageIds.length < MATCH_IDS_PER_PAGE) {
+            return { matchIds, truncated: false };
+        }
+    }
+
+    return { matchIds, truncated: true };
+}
+
+/**
+ * Collects the match IDs in a window, halving windows that hit the page cap
+ * so busy periods are still fetched in full. `truncated` is only set when a
+ * window of MIN_SPLIT_WINDOW_SECONDS still has more IDs than the cap.
+ */
+export async function fetchWindowMatchIds(
+    summonerPuuid: string,
+    area: string,
+    startTimestamp: number,
+    endTimestamp: number,
+    queueId: number
+): Promise<{ matchIds: string[]; truncated: boolean }> {
+    const result = await fetchMatchIds(
+        summonerPuuid,
+        area,
+        startTimestamp,
+        endTimestamp,
+        queueId
+    );
+    if (
+        !result.truncated ||
+        endTimestamp - startTimestamp <= MIN_SPLIT_WINDOW_SECONDS
+    ) {
+        return result;
+    }
+
+    const middle = Math.floor((startTimestamp + endTimestamp) / 2);
+    const newer = await fetchWindowMatchIds(
+        summonerPuuid,
+        area,
+        middle,
+        endTimestamp,
+        queueId
+    );
+    const older = await fetchWindowMatchIds(
+        summonerPuuid,
+        area,
+        startTimestamp,
+        middle,
+        queueId
+    );
+
+    return {
+        // A match starting exactly on the split point is in both halves
+        matchIds: [...new Set([...newer.matchIds, ...older.matchIds])],
+        truncated: newer.truncated || older.truncated,
+    };
 }
 
 async function fetchMatchDetails(
     matchId: string,
     area: string
 ): Promise<RiotMatchResponse> {
-    const url = `https://${area}.api.riotgames.com/lol/match/v5/matches/${matchId}?api_key=${RIOT_API_KEY}`;
-    const response = await axios.get<RiotMatchResponse>(url);
-    return response.data;
-}
-
-async function getNewMatchIds(
-    matchIds: string[],
-    summonerPuuid: string
-): Promise<string[]> {
-    // Check both Ranked Solo and Arena tables due to Riot API queue mismatch bug
-    const [rankedMatches, arenaMatches] = await Promise.all([
-        prisma.rankedSoloMatch.findMany({
-            where: {
-                match_id: { in: matchIds },
-                summoner_puuid: summonerPuuid,
-            },
-            select: { match_id: true },
-        }),
-        prisma.arenaMatch.findMany({
-            where: {
-                match_id: { in: matchIds },
-                summoner_puuid: summonerPuuid,
-            },
-            select: { match_id: true },
-        }),
-    ]);
-
-    const existingIds = new Set([
-        ...rankedMatches.map((m) => m.match_id),
-        ...arenaMatches.map((m) => m.match_id),
-    ]);
-    return matchIds.filter((id) => !existingIds.has(id));
+    return await riotGet<RiotMatchResponse>(
+        area,
+        "match-v5.getMatch",
+        `/lol/match/v5/matches/${matchId}`
+    );
 }
 
-async function saveMatchData(
-    matchData: RiotMatchResponse,
-    summonerPuuid: string
-): Promise<void> {
-    const participant = matchData.info.participants.find(
-        (p) => p.puuid === summonerPuuid
-    );
+async function getMatchDetails(
+    matchId: string,
+    area: string
+): Promise<RiotMatchResponse> {
+    // Matches shared by several tracked summoners are only fetched once
+    const rawMatch = await prisma.rawMatch.findUnique({
+        where: { match_id: matchId },
+        select: { data: true },
+    });
 
-    if (!participant) {
-        throw new Error(`Participant not found for ${summonerPuuid}`);
+    if (rawMatch) {
+        return rawMatch.data as unknown as RiotMatchResponse;
     }
 
-    const challenges = participant.challenges || {};
+    const matchData = await fetchMatchDetails(matchId, area);
 
-    await prisma.rankedSoloMatch.create({
-        data: {
-            match_id: matchData.metadata.matchId,
-            summoner_puuid: summonerPuuid,
-            end_of_game_result: matchData.info.endOfGameResult,
-            game_creation: BigInt(matchData.info.gameCreation),
-            game_duration: matchData.info.gameDuration,
-            game_end_timestamp: matchData.info.gameEndTimestamp
-                ? BigInt(matchData.info.gameEndTimestamp)
-                : null,
-            game_id: BigInt(matchData.info.gameId),
-            game_mode: matchData.info.gameMode,
-            game_name: matchData.info.gameName,
-            game_start_timestamp: BigInt(matchData.info.gameStartTimestamp),
-            game_type: matchData.info.gameType,
-            game_version: matchData.info.gameVersion,
-            map_id: matchData.info.mapId,
+    await prisma.rawMatch.upsert({
+        where: { match_id: matchId },
+        update: {},
+        create: {
+            match_id: matchId,
             queue_id: matchData.info.queueId,
-            champion_id: participant.championId,
-            champion_name: participant.championName,
-            win: participant.win,
-            kills: participant.kills,
-            deaths: participant.deaths,
-            assists: participant.assists,
-            kda: calculateKDA(
-                participant.kills,
-                participant.deaths,
-                participant.assists
-            ),
-            solo_kills: challenges.soloKills ?? 0,
-            vision_score: participant.visionScore ?? 0,
-            team_damage_percentage: challenges.teamDamagePercentage ?? 0,
-            kill_participation: challenges.killParticipation ?? 0,
-            gold_per_minute: challenges.goldPerMinute ?? 0,
-            damage_per_minute: challenges.damagePerMinute ?? 0,
-            damage_to_champions: participant.totalDamageDealtToChampions,
-            enemy_missing_pings: participant.enemyMissingPings,
-            assist_me_pings: participant.assistMePings,
-            control_wards_placed: challenges.controlWardsPlaced,
-            ability_uses: challenges.abilityUses ?? 0,
-            scuttle_crab_kills: challenges.scuttleCrabKills ?? 0,
-            game_surrendered: participant.gameEndedInSurrender,
+            game_start_timestamp: BigInt(matchData.info.gameStartTimestamp),
+            data: matchData as unknown as Prisma.InputJsonValue,
         },
     });
+    await saveMatchParticipants(matchData);
+
+    return matchData;
 }
 
-async function saveArenaMatchData(
-    matchData: RiotMatchResponse,
+async function getNewMatchIds(
+    matchIds: string[],
     summonerPuuid: string
-): Promise<void> {
-    const participant = matchData.info.participants.find(
-        (p) => p.puuid === summonerPuuid
+): Promise<string[]> {
+    // Check every match table due to Riot API queue mismatch bug
+    const existingMatches = await Promise.all(
+        MATCH_STORAGES.map((storage) =>
+            storage.findMany({
+                where: {
+                    match_id: { in: matchIds },
+                    summoner_puuid: summonerPuuid,
+                },
+                select: { match_id: true },
+            })
+        )
     );
 
-    if (!participant) {
-        throw new Error(`Participant not found for ${summonerPuuid}`);
-    }
-
-    await prisma.arenaMatch.create({
-        data: {
-            match_id: matchData.metadata.matchId,
-            summoner_puuid: summonerPuuid,
-            end_of_game_result: matchData.info.endOfGameResult,
-            game_creation: BigInt(matchData.info.gameCreation),
-            game_duration: matchData.info.gameDuration,
-            game_end_timestamp: matchData.info.gameEndTimestamp
-                ? BigInt(matchData.info.gameEndTimestamp)
-                : null,
-            game_id: BigInt(matchData.info.gameId),
-            game_mode: matchData.info.gameMode,
-            game_name: matchData.info.gameName,
-            game_start_timestamp: BigInt(matchData.info.gameStartTimestamp),
-            game_type: matchData.info.gameType,
-            game_version: matchData.info.gameVersion,
-            map_id: matchData.info.mapId,
-            queue_id: matchData.info.queueId,
-            champion_id: participant.championId,
-            champion_name: participant.championName,
-            win: participant.win,
-            kills: participant.kills,
-            deaths: participant.deaths,
-            assists: participant.assists,
-            kda: calculateKDA(
-                participant.kills,
-                participant.deaths,
-                participant.assists
-            ),
-            placement: participant.placement ?? 0,
-            subteam_placement: participant.subteamPlacement ?? 0,
-            player_subteam_id: participant.playerSubteamId ?? 0,
-            player_augment_1: participant.playerAugment1 ?? 0,
-            player_augment_2: participant.playerAugment2 ?? 0,
-            player_augment_3: participant.playerAugment3 ?? 0,
-            player_augment_4: participant.playerAugment4 ?? 0,
-            player_augment_5: participant.playerAugment5 ?? 0,
-            player_augment_6: participant.playerAugment6 ?? 0,
-            damage_to_champions: participant.totalDamageDealtToChampions,
-            item_0: participant.item0 ?? 0,
-            item_1: participant.item1 ?? 0,
-            item_2: participant.item2 ?? 0,
-            item_3: participant.item3 ?? 0,
-            item_4: participant.item4 ?? 0,
-            item_5: participant.item5 ?? 0,
-            item_6: participant.item6 ?? 0,
-        },
-    });
+    const existingIds = new Set(
+        existingMatches.flat().map((m) => m.match_id as string)
+    );
+    return matchIds.filter((id) => !existingIds.has(id));
 }
 
 async function processSummonerMatches(
     summoner: { name: string; puuid: string; region: string },
     queueId: number
-): Promise<number> {
-    const cachedRecently = await checkIfCachedWithinRange(
-        summoner,
-        RECENT_CACHE_DAYS
-    );
-    const daysToFetch = cachedRecently ? RECENT_CACHE_DAYS : DEFAULT_FETCH_DAYS;
+): Promise<SummonerSyncResult> {
     const region = summoner.region ?? "na1";
     const area = getAreaFromRegion(region) || "americas";
     const queueName = getQueueName(queueId);
+    const handler = getQueueHandlerById(queueId);
 
-    const isArena = queueId === 1700;
+    if (!handler) {
+        logger.warn(`Models > matches > ${queueName} is not a registered queue`);
+        return { matchesSaved: 0, truncatedWindows: 0, errors: [] };
+    }
 
     // Count existing matches in database for this summoner/queue
-    const existingInDb = isArena
-        ? await prisma.arenaMatch.count({
-              where: { summoner_puuid: summoner.puuid },
-          })
-        : await prisma.rankedSoloMatch.count({
-              where: { summoner_puuid: summoner.puuid },
-          });
+    const existingInDb = await handler.storage.count({
+        summoner_puuid: summoner.puuid,
+        queue_id: queueId,
+    });
+
+    // Fetch from the newest ingested game, or from just before the last
+    // complete sync, but never further back than DEFAULT_FETCH_DAYS
+    const syncState = await getSyncState(summoner.puuid, queueId);
+    const syncEnd = Date.now();
+    const syncStart = Math.max(
+        syncEnd - DEFAULT_FETCH_DAYS * DAY_MS,
+        syncState?.lastGameStartTimestamp ?? 0,
+        syncState
+            ? syncState.lastSyncedAt.getTime() - IN_PROGRESS_GRACE_MS
+            : 0
+    );
 
     let newMatchesFound = 0;
     let newMatchesSaved = 0;
-    let daysFetched = 0;
-
-    while (daysFetched < daysToFetch) {
-        const batchDays = Math.min(DAYS_PER_BATCH, daysToFetch - daysFetched);
-        const endTime = new Date();
-        endTime.setDate(endTime.getDate() - daysFetched);
-        const startTime = new Date(endTime);
-        startTime.setDate(startTime.getDate() - batchDays);
-
-        const startTimestamp = Math.floor(startTime.getTime() / 1000);
-        const endTimestamp = Math.floor(endTime.getTime() / 1000);
+    let truncatedWindows = 0;
+    const errors: CacheRunErrorData[] = [];
+    let latestGameStart = syncState?.lastGameStartTimestamp ?? null;
+    let complete = true;
+
+    for (
+        let windowStart = syncStart;
+        windowStart < syncEnd;
+        windowStart += DAYS_PER_BATCH * DAY_MS
+    ) {
+        const windowEnd = Math.min(
+            windowStart + DAYS_PER_BATCH * DAY_MS,
+            syncEnd
+        );
+        const startTimestamp = Math.floor(windowStart / 1000);
+        const endTimestamp = Math.floor(windowEnd / 1000);
 
         try {
-            const matchIds = await fetchMatchIds(
+            const { matchIds, truncated } = await fetchWindowMatchIds(
                 summoner.puuid,
                 area,
                 startTimestamp,
@@ -294,26 +283,45 @@ async function processSummonerMatches(
                 queueId
             );
 
+            if (truncated) {
+                // Skipped matches must be retried, so keep the watermark
+                complete = false;
+                truncatedWindows++;
+                logger.warn(
+                    `Models > matches > ${summoner.name} - ${queueName}: too many matches between ${new Date(windowStart).toISOString()} and ${new Date(windowEnd).toISOString()}, some older matches in this window were skipped`
+                );
+            }
+
             const newMatchIds = await getNewMatchIds(matchIds, summoner.puuid);
             newMatchesFound += newMatchIds.length;
 
             for (const matchId of newMatchIds) {
                 try {
-                    const matchData = await fetchMatchDetails(matchId, area);
+                    const matchData = await getMatchDetails(matchId, area);
 
                     // Save to the correct table based on actual queue ID
-                    const actualIsArena = matchData.info.queueId === 1700;
-                    const actualSaveData = actualIsArena
-                        ? saveArenaMatchData
-                        : saveMatchData;
+                    const actualHandler = getQueueHandlerById(
+                        matchData.info.queueId
+                    );
 
-                    try {
-                        await actualSaveData(matchData, summoner.puuid);
-                        newMatchesSaved++;
-                    } catch (saveError: any) {
-                        throw saveError;
+                    if (!actualHandler) {
+                        logger.warn(
+                            `Models > matches > Skipping match ${matchId} from unregistered queue ${matchData.info.queueId}`
+                        );
+                        continue;
                     }
+
+                    await actualHandler.storage.save(matchData, summoner.puuid);
+                    newMatchesSaved++;
+                    latestGameStart = Math.max(
+                        latestGameStart ?? 0,
+                        matchData.info.gameStartTimestamp
+                    );
                 } catch (error) {
+                    complete = false;
+                    errors.push(
+                        toCacheRunError(summoner.puuid, queueId, matchId, error)
+                    );
                     logger.error(
                         `Models > matches > Error processing match ${matchId} for ${summoner.name}`,
                         error
@@ -321,49 +329,157 @@ async function processSummonerMatches(
                 }
             }
         } catch (error) {
+            complete = false;
+            errors.push(toCacheRunError(summoner.puuid, queueId, null, error));
             logger.error(
                 `Models > matches > Error fetching ${queueName} matches for ${summoner.name}`,
                 error
             );
         }
+    }
 
-        daysFetched += batchDays;
+    // Only move the watermark forward when nothing in the window was missed,
+    // so failed matches are retried on the next run
+    if (complete) {
+        await updateSyncState(
+            summoner.puuid,
+            queueId,
+            latestGameStart,
+            new Date(syncEnd)
+        );
     }
 
     // Log summary
     logger.info(
-        `Models > matches > ${summoner.name} - ${queueName}: ${existingInDb} in DB, ${newMatchesFound} new found, ${newMatchesSaved} saved`
+        `Models > matches > ${summoner.name} - ${queueName}: ${existingInDb} in DB, ${newMatchesFound} new found, ${newMatchesSaved} saved${complete ? "" : " (incomplete, watermark not advanced)"}`
     );
 
-    return newMatchesSaved;
+    return { matchesSaved: newMatchesSaved, truncatedWindows, errors };
 }
 
+/**
+ * Runs `task` once any earlier task for the same summoner has settled.
+ */
+async function withSummonerLock<T>(
+    summonerPuuid: string,
+    task: () => Promise<T>
+): Promise<T> {
+    const previous = summonerLocks.get(summonerPuuid) ?? Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.then(
+        () => undefined,
+        () => undefined
+    );
+    summonerLocks.set(summonerPuuid, tail);
+
+    try {
+        return await result;
+    } finally {
+        if (summonerLocks.get(summonerPuuid) === tail) {
+            summonerLocks.delete(summonerPuuid);
+        }
+    }
+}
+
+/**
+ * Caches new matches for every tracked summoner (or `options.summoners`).
+ * When a ranked queue is included, league entries are snapshotted before and
+ * after each summoner's pass and the LP changes attributed to their matches.
+ * The run, its per-queue totals and any errors are recorded in cache_runs.
+ * A summoner already being synced by another run is waited on, not overlapped.
+ */
 export async function cacheMatchData(
-    queueIds: number[] = QUEUE_IDS_TO_CACHE
-): Promise<void> {
+    queueIds: number[] = QUEUE_IDS_TO_CACHE,
+    options: CacheMatchDataOptions = {}
+): Promise<{ runId: string; totalMatches: number }> {
+    let runId: string | null = null;
+
     try {
         const startTime = Date.now();
-        const summoners = await getUniqueSummoners();
+        const summoners = options.summoners ?? (await getUniqueSummoners());
         const queueNames = queueIds.map(getQueueName).join(", ");
 
+        const currentRunId = await startCacheRun(
+            options.trigger ?? "cron",
+            summoners.length,
+            queueIds
+        );
+        runId = currentRunId;
+
         logger.info(
             `Models > matches > Starting match data caching for ${summoners.length} summoners across ${queueIds.length} queue(s): ${queueNames}`
         );
 
         const totals: Record<number, number> = {};
         queueIds.forEach((id) => (totals[id] = 0));
+        let truncatedWindows = 0;
+        let summonersProcessed = 0;
+        const rankedQueueIds = queueIds.filter((id) =>
+            RANKED_QUEUE_IDS.includes(id)
+        );
 
         for (const summoner of summoners) {
-            for (const queueId of queueIds) {
-                const matchesCached = await processSummonerMatches(
-                    summoner,
-                    queueId
-                );
-                totals[queueId] += matchesCached;
-            }
-            await updateCachedTimestamp(summoner);
+            const summonerErrors: CacheRunErrorData[] = [];
+
+            await withSummonerLock(summoner.puuid, async () => {
+                // League readings on both sides of the pass bracket the games
+                // it saves, so their LP change can be attributed afterwards
+                const snapshotRanks = async () => {
+                    if (rankedQueueIds.length === 0) return;
+                    try {
+                        await snapshotSummonerRanks(summoner);
+                    } catch (error) {
+                        summonerErrors.push(
+                            toCacheRunError(
+                                summoner.puuid,
+                                rankedQueueIds[0],
+                                null,
+                                error
+                            )
+                        );
+                    }
+                };
+
+                await snapshotRanks();
+
+                for (const queueId of queueIds) {
+                    const result = await processSummonerMatches(
+                        summoner,
+                        queueId
+                    );
+                    totals[queueId] += result.matchesSaved;
+                    truncatedWindows += result.truncatedWindows;
+                    summonerErrors.push(...result.errors);
+                    options.onQueueComplete?.(queueId, result.matchesSaved);
+                }
+
+                await snapshotRanks();
+
+                if (rankedQueueIds.length > 0) {
+                    await recordLpChanges(summoner).catch((error) =>
+                        summonerErrors.push(
+                            toCacheRunError(
+                                summoner.puuid,
+                                rankedQueueIds[0],
+                                null,
+                                error
+                            )
+                        )
+                    );
+                }
+                await updateCachedTimestamp(summoner, currentRunId);
+            });
+
+            summonersProcessed++;
+            await updateCacheRunProgress(
+                runId,
+                { summonersProcessed, matchesSaved: totals, truncatedWindows },
+                summonerErrors
+            );
         }
 
+        await finishCacheRun(runId, "completed");
+
         const elapsed = Date.now() - startTime;
         const minutes = Math.floor(elapsed / 60000);
         const seconds = Math.floor((elapsed % 60000) / 1000);
@@ -379,8 +495,23 @@ export async function cacheMatchData(
         logger.success(
             `Models > matches > Caching complete: ${totalMatches} total matches (${breakdown}) in ${minutes}m ${seconds}s`
         );
+
+        if (truncatedWindows > 0) {
+            logger.warn(
+                `Models > matches > ${truncatedWindows} window(s) hit the ${MAX_MATCH_ID_PAGES}-page match ID cap and may be missing matches`
+            );
+        }
+
+        return { runId, totalMatches };
     } catch (error) {
         logger.error("Models > matches > Error in cacheMatchData", error);
+        if (runId) {
+            await finishCacheRun(
+                runId,
+                "failed",
+                error instanceof Error ? error.message : String(error)
+            ).catch(() => undefined);
+        }
         throw error;
     }
 }
@@ -390,22 +521,26 @@ export async function deleteMatchesOlderThan(days = 31): Promise<number> {
         const cutoffMs = days * 24 * 60 * 60 * 1000;
         const cutoffTimestamp = BigInt(Date.now() - cutoffMs);
 
-        const rankedResult = await prisma.rankedSoloMatch.deleteMany({
-            where: {
+        let totalDeleted = 0;
+        const breakdown: string[] = [];
+
+        for (const storage of MATCH_STORAGES) {
+            const deleted = await storage.deleteMany({
                 game_start_timestamp: { lt: cutoffTimestamp },
-            },
-        });
+            });
+            totalDeleted += deleted;
+            breakdown.push(`${storage.name}: ${deleted}`);
+        }
 
-        const arenaResult = await prisma.arenaMatch.deleteMany({
+        const rawResult = await prisma.rawMatch.deleteMany({
             where: {
                 game_start_timestamp: { lt: cutoffTimestamp },
             },
         });
-
-        const totalDeleted = rankedResult.count + arenaResult.count;
+        breakdown.push(`Raw: ${rawResult.count}`);
 
         logger.info(
-            `Models > matches > Deleted ${totalDeleted} matches older than ${days} days (Ranked: ${rankedResult.count}, Arena: ${arenaResult.count})`
+            `Models > matches > Deleted ${totalDeleted} matches older than ${days} days (${breakdown.join(", ")})`
         );
         return totalDeleted;
     } catch (error) {
@@ -424,46 +559,120 @@ function serializeMatch(match: any): any {
     };
 }
 
-export async function fetchAllSummonerMatchDataByRange(
+// Timestamps are BigInt columns; every other sort key is numeric
+function toSortValue(sortBy: MatchSortKey, value: string): bigint | number {
+    return sortBy === "game_start_timestamp" ? BigInt(value) : Number(value);
+}
+
+/**
+ * Returns one page of a summoner's matches in the range. Pages are keyed on
+ * the sort column with the match ID as a tie-breaker, so rows cached while a
+ * client is paging don't shift later pages.
+ */
+export async function fetchSummonerMatchPageByRange(
     summonerPuuid: string,
     range = 7,
-    queueType = "ranked_solo"
-): Promise<any[] | null> {
+    queueType = "ranked_solo",
+    filter: MatchFilter = {},
+    options: MatchListOptions,
+    enrich = false
+): Promise<{ matches: any[]; nextCursor: string | null } | null> {
     try {
         const now = new Date();
         const lowerRange = new Date(now.setDate(now.getDate() - range));
         const lowerRangeEpoch = BigInt(lowerRange.getTime());
 
-        let matches;
-        if (queueType === "arena") {
-            matches = await prisma.arenaMatch.findMany({
-                where: {
-                    summoner_puuid: summonerPuuid,
-                    game_start_timestamp: { gte: lowerRangeEpoch },
-                },
-                orderBy: {
-                    game_start_timestamp: "desc",
-                },
-            });
-        } else {
-            matches = await prisma.rankedSoloMatch.findMany({
-                where: {
-                    summoner_puuid: summonerPuuid,
-                    game_start_timestamp: { gte: lowerRangeEpoch },
-                },
-                orderBy: {
-                    game_start_timestamp: "desc",
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            logger.warn(
+                `Models > matches > Queue type '${queueType}' not supported`
+            );
+            return null;
+        }
+
+        const { sortBy, order, cursor } = options;
+        const where: MatchWhereInput = {
+            ...(await resolveMatchFilter(filter)),
+            summoner_puuid: summonerPuuid,
+            queue_id: handler.queueId,
+            game_start_timestamp: { gte: lowerRangeEpoch },
+        };
+
+        if (options.champion) {
+            if (/^\d+$/.test(options.champion)) {
+                where.champion_id = Number(options.champion);
+            } else {
+                where.champion_name = {
+                    equals: options.champion,
+                    mode: "insensitive",
+                };
+            }
+        }
+        if (options.result) {
+            where.win = options.result === "win";
+        }
+        if (options.minDuration !== undefined) {
+            where.game_duration = { gte: options.minDuration };
+        }
+        if (cursor) {
+            const op = order === "desc" ? "lt" : "gt";
+            const value = toSortValue(sortBy, cursor.value);
+            where.AND = [
+                {
+                    OR: [
+                        { [sortBy]: { [op]: value } },
+                        { [sortBy]: value, match_id: { [op]: cursor.matchId } },
+                    ],
                 },
-            });
+            ];
         }
 
-        if (!matches || matches.length === 0) {
-            logger.debug(
-                `Models > matches > No ${queueType} matches found for ${summonerPuuid} within ${range} days`
+        const select = options.fields
+            ? Object.fromEntries(
+                  [...options.fields, "match_id", sortBy].map((field) => [
+                      field,
+                      true,
+                  ])
+              )
+            : undefined;
+
+        const rows = await handler.storage.findMany({
+            where,
+            orderBy: [{ [sortBy]: order }, { match_id: order }],
+            select,
+            take: options.limit + 1,
+        });
+
+        const hasMore = rows.length > options.limit;
+        const page = rows.slice(0, options.limit);
+        const last = page[page.length - 1];
+        const nextCursor =
+            hasMore && last
+                ? encodeMatchCursor({
+                      sortBy,
+                      order,
+                      value: String(last[sortBy]),
+                      matchId: last.match_id,
+                  })
+                : null;
+
+        let matches = page.map(serializeMatch);
+        if (options.fields) {
+            // Drop the cursor columns when they weren't requested
+            const fields = ["match_id", ...options.fields];
+            matches = matches.map((match) =>
+                Object.fromEntries(
+                    Object.entries(match).filter(([key]) =>
+                        fields.includes(key)
+                    )
+                )
             );
-            return null;
         }
-        return matches.map(serializeMatch);
+
+        return {
+            matches: enrich ? matches.map(enrichMatch) : matches,
+            nextCursor,
+        };
     } catch (error) {
         logger.error(
             `Models > matches > Error fetching ${queueType} summoner matches`,
@@ -476,34 +685,32 @@ export async function fetchAllSummonerMatchDataByRange(
 export async function fetchAllSummonerMatchDataSinceDate(
     summonerPuuid: string,
     startDate: Date,
-    queueType = "ranked_solo"
+    queueType = "ranked_solo",
+    filter: MatchFilter = {}
 ): Promise<any[] | null> {
     try {
         const startDateEpoch = BigInt(startDate.getTime());
 
-        let matches;
-        if (queueType === "arena") {
-            matches = await prisma.arenaMatch.findMany({
-                where: {
-                    summoner_puuid: summonerPuuid,
-                    game_start_timestamp: { gte: startDateEpoch },
-                },
-                orderBy: {
-                    game_start_timestamp: "desc",
-                },
-            });
-        } else {
-            matches = await prisma.rankedSoloMatch.findMany({
-                where: {
-                    summoner_puuid: summonerPuuid,
-                    game_start_timestamp: { gte: startDateEpoch },
-                },
-                orderBy: {
-                    game_start_timestamp: "desc",
-                },
-            });
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            logger.warn(
+                `Models > matches > Queue type '${queueType}' not supported`
+            );
+            return null;
         }
 
+        const matches = await handler.storage.findMany({
+            where: {
+                ...(await resolveMatchFilter(filter)),
+                summoner_puuid: summonerPuuid,
+                queue_id: handler.queueId,
+                game_start_timestamp: { gte: startDateEpoch },
+            },
+            orderBy: {
+                game_start_timestamp: "desc",
+            },
+        });
+
         if (!matches || matches.length === 0) {
             logger.debug(
                 `Models > matches > No ${queueType} matches found for ${summonerPuuid} since ${startDate.toISOString()}`
@@ -520,25 +727,96 @@ export async function fetchAllSummonerMatchDataSinceDate(
     }
 }
 
+/**
+ * Returns a match with every tracked summoner's row for it, optionally
+ * limited to one guild's members. Null when no tracked summoner (in that
+ * guild) played the match.
+ */
+export async function fetchMatchById(
+    matchId: string,
+    guildId?: string
+): Promise<{ match: Record<string, any>; participants: any[] } | null> {
+    try {
+        let puuidFilter: { in: string[] } | undefined;
+        if (guildId) {
+            const guildSummoners = await prisma.guildSummoner.findMany({
+                where: { guild_id: BigInt(guildId) },
+                select: { summoner_puuid: true },
+            });
+            puuidFilter = { in: guildSummoners.map((gs) => gs.summoner_puuid) };
+        }
+
+        const rows: any[] = [];
+        for (const storage of MATCH_STORAGES) {
+            rows.push(
+                ...(await storage.findMany({
+                    where: {
+                        match_id: matchId,
+                        ...(puuidFilter ? { summoner_puuid: puuidFilter } : {}),
+                    },
+                }))
+            );
+        }
+
+        if (rows.length === 0) {
+            logger.debug(
+                `Models > matches > No tracked participants found for match ${matchId}`
+            );
+            return null;
+        }
+
+        const summoners = await prisma.summoner.findMany({
+            where: { puuid: { in: rows.map((row) => row.summoner_puuid) } },
+            select: { puuid: true, name: true },
+        });
+        const names = new Map(summoners.map((s) => [s.puuid, s.name]));
+
+        const first = serializeMatch(rows[0]);
+        const match = {
+            match_id: first.match_id,
+            game_id: first.game_id,
+            queue_id: first.queue_id,
+            queue_name: getQueueName(first.queue_id),
+            game_mode: first.game_mode,
+            game_start_timestamp: first.game_start_timestamp,
+            game_end_timestamp: first.game_end_timestamp,
+            game_duration: first.game_duration,
+            game_version: first.game_version,
+            patch: first.patch,
+            end_of_game_result: first.end_of_game_result,
+        };
+
+        const participants = rows.map((row) => ({
+            summoner_name: names.get(row.summoner_puuid) ?? null,
+            ...serializeMatch(row),
+        }));
+
+        return { match, participants };
+    } catch (error) {
+        logger.error(
+            `Models > matches > Error fetching match ${matchId}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
 export async function deleteMatchesForRemovedSummoners(): Promise<number> {
     try {
         logger.info("Models > matches > Fetching active summoners");
         const activeSummoners = await getUniqueSummoners();
         const activePuuids = activeSummoners.map((s) => s.puuid);
 
-        const rankedResult = await prisma.rankedSoloMatch.deleteMany({
-            where: {
-                summoner_puuid: { notIn: activePuuids },
-            },
-        });
+        let totalDeleted = 0;
+        const breakdown: string[] = [];
 
-        const arenaResult = await prisma.arenaMatch.deleteMany({
-            where: {
+        for (const storage of MATCH_STORAGES) {
+            const deleted = await storage.deleteMany({
                 summoner_puuid: { notIn: activePuuids },
-            },
-        });
-
-        const totalDeleted = rankedResult.count + arenaResult.count;
+            });
+            totalDeleted += deleted;
+            breakdown.push(`${storage.name}: ${deleted}`);
+        }
 
         if (totalDeleted === 0) {
             logger.info("Models > matches > No orphaned matches found");
@@ -546,7 +824,7 @@ export async function deleteMatchesForRemovedSummoners(): Promise<number> {
         }
 
         logger.info(
-            `Models > matches > Deleted ${totalDeleted} orphaned matches (Ranked: ${rankedResult.count}, Arena: ${arenaResult.count})`
+            `Models > matches > Deleted ${totalDeleted} orphaned matches (${breakdown.join(", ")})`
         );
         return totalDeleted;
     } catch (error) {
@@ -0,0 +1,325 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../utils/prisma.js";
+import { logger } from "../utils/logger.js";
+import { RiotMatchResponse } from "../types/riot.js";
+
+export interface TeammateStats {
+    puuid: string;
+    name: string | null;
+    games: number;
+    wins: number;
+    winRate: number;
+}
+
+export interface OpponentStats {
+    championId: number;
+    championName: string;
+    games: number;
+    wins: number;
+    winRate: number;
+}
+
+export interface OpponentMatch {
+    matchId: string;
+    gameStartTimestamp: number;
+    teamPosition: string;
+    championName: string;
+    opponentPuuid: string;
+    opponentName: string | null;
+    opponentChampionName: string;
+    win: boolean;
+}
+
+function formatRiotId(participant: {
+    riot_id_game_name: string | null;
+    riot_id_tagline: string | null;
+}): string | null {
+    if (!participant.riot_id_game_name) {
+        return null;
+    }
+    return participant.riot_id_tagline
+        ? `${participant.riot_id_game_name}#${participant.riot_id_tagline}`
+        : participant.riot_id_game_name;
+}
+
+function toWinRate(wins: number, games: number): number {
+    return games > 0 ? Math.round((wins / games) * 10000) / 100 : 0;
+}
+
+/**
+ * Stores every participant of a match. Arena players are grouped by their
+ * subteam rather than the Riot team, so teammates line up with the duo.
+ */
+export async function saveMatchParticipants(
+    matchData: RiotMatchResponse
+): Promise<void> {
+    try {
+        const { info, metadata } = matchData;
+
+        await prisma.matchParticipant.createMany({
+            data: info.participants.map((participant, index) => ({
+                match_id: metadata.matchId,
+                participant_id: participant.participantId ?? index + 1,
+                puuid: participant.puuid,
+                riot_id_game_name: participant.riotIdGameName || null,
+                riot_id_tagline: participant.riotIdTagline || null,
+                queue_id: info.queueId,
+                game_start_timestamp: BigInt(info.gameStartTimestamp),
+                champion_id: participant.championId,
+                champion_name: participant.championName,
+                team_id: participant.playerSubteamId || participant.teamId,
+                team_position: participant.teamPosition || null,
+                win: participant.win,
+                kills: participant.kills,
+                deaths: participant.deaths,
+                assists: participant.assists,
+                damage_to_champions: participant.totalDamageDealtToChampions,
+                gold_earned: participant.goldEarned ?? 0,
+                cs:
+                    (participant.totalMinionsKilled ?? 0) +
+                    (participant.neutralMinionsKilled ?? 0),
+                vision_score: participant.visionScore ?? 0,
+                item_0: participant.item0 ?? 0,
+                item_1: participant.item1 ?? 0,
+                item_2: participant.item2 ?? 0,
+                item_3: participant.item3 ?? 0,
+                item_4: participant.item4 ?? 0,
+                item_5: participant.item5 ?? 0,
+                item_6: participant.item6 ?? 0,
+            })),
+            skipDuplicates: true,
+        });
+    } catch (error) {
+        logger.error(
+            `Models > participants > Error saving participants for ${matchData.metadata.matchId}`,
+            error
+        );
+        throw error;
+    }
+}
+
+/**
+ * Loads the summoner's own participant rows in the range along with every
+ * other participant of those matches.
+ */
+async function fetchLobbies(
+    puuid: string,
+    range: number,
+    queueId?: number
+) {
+    const startDateEpoch = Date.now() - range * 24 * 60 * 60 * 1000;
+    const where: Prisma.MatchParticipantWhereInput = {
+        puuid,
+        game_start_timestamp: { gte: BigInt(startDateEpoch) },
+    };
+    if (queueId !== undefined) {
+        where.queue_id = queueId;
+    }
+
+    const own = await prisma.matchParticipant.findMany({
+        where,
+        orderBy: { game_start_timestamp: "desc" },
+    });
+
+    const others = await prisma.matchParticipant.findMany({
+        where: {
+            match_id: { in: own.map((p) => p.match_id) },
+            puuid: { not: puuid },
+        },
+    });
+
+    const othersByMatch = new Map<string, typeof others>();
+    for (const participant of others) {
+        const lobby = othersByMatch.get(participant.match_id) ?? [];
+        lobby.push(participant);
+        othersByMatch.set(participant.match_id, lobby);
+    }
+
+    return own.map((participant) => ({
+        participant,
+        others: othersByMatch.get(participant.match_id) ?? [],
+    }));
+}
+
+export async function getFrequentTeammates(
+    puuid: string,
+    range: number,
+    queueId?: number,
+    limit = 10
+): Promise<TeammateStats[]> {
+    try {
+        const lobbies = await fetchLobbies(puuid, range, queueId);
+        const teammates = new Map<string, TeammateStats>();
+
+        for (const { participant, others } of lobbies) {
+            for (const other of others) {
+                if (other.team_id !== participant.team_id) {
+                    continue;
+                }
+
+                const entry = teammates.get(other.puuid) ?? {
+                    puuid: other.puuid,
+                    name: formatRiotId(other),
+                    games: 0,
+                    wins: 0,
+                    winRate: 0,
+                };
+                entry.games++;
+                if (participant.win) {
+                    entry.wins++;
+                }
+                teammates.set(other.puuid, entry);
+            }
+        }
+
+        return [...teammates.values()]
+            .filter((entry) => entry.games > 1)
+            .map((entry) => ({
+                ...entry,
+                winRate: toWinRate(entry.wins, entry.games),
+            }))
+            .sort((a, b) => b.games - a.games || b.winRate - a.winRate)
+            .slice(0, limit);
+    } catch (error) {
+        logger.error(
+            `Models > participants > Error fetching teammates for ${puuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+/**
+ * Groups the summoner's games by the enemy champion played in the same
+ * position. Passing a champion (name or ID) narrows the result to that
+ * matchup and includes the individual games.
+ */
+export async function getLaneOpponents(
+    puuid: string,
+    range: number,
+    queueId?: number,
+    champion?: string
+): Promise<{ opponents: OpponentStats[]; matches?: OpponentMatch[] }> {
+    try {
+        const lobbies = await fetchLobbies(puuid, range, queueId);
+        const championFilter = champion?.toLowerCase();
+        const opponents = new Map<number, OpponentStats>();
+        const matches: OpponentMatch[] = [];
+
+        for (const { participant, others } of lobbies) {
+            if (!participant.team_position) {
+                continue;
+            }
+
+            const opponent = others.find(
+                (other) =>
+                    other.team_id !== participant.team_id &&
+                    other.team_position === participant.team_position
+            );
+            if (!opponent) {
+                continue;
+            }
+
+            if (
+                championFilter &&
+                opponent.champion_name.toLowerCase() !== championFilter &&
+                String(opponent.champion_id) !== championFilter
+            ) {
+                continue;
+            }
+
+            const entry = opponents.get(opponent.champion_id) ?? {
+                championId: opponent.champion_id,
+                championName: opponent.champion_name,
+                games: 0,
+                wins: 0,
+                winRate: 0,
+            };
+            entry.games++;
+            if (participant.win) {
+                entry.wins++;
+            }
+            opponents.set(opponent.champion_id, entry);
+
+            if (championFilter) {
+                matches.push({
+                    matchId: participant.match_id,
+                    gameStartTimestamp: Number(
+                        participant.game_start_timestamp
+                    ),
+                    teamPosition: participant.team_position,
+                    championName: participant.champion_name,
+                    opponentPuuid: opponent.puuid,
+                    opponentName: formatRiotId(opponent),
+                    opponentChampionName: opponent.champion_name,
+                    win: participant.win,
+                });
+            }
+        }
+
+        const sorted = [...opponents.values()]
+            .map((entry) => ({
+                ...entry,
+                winRate: toWinRate(entry.wins, entry.games),
+            }))
+            .sort((a, b) => b.games - a.games || a.winRate - b.winRate);
+
+        return championFilter
+            ? { opponents: sorted, matches }
+            : { opponents: sorted };
+    } catch (error) {
+        logger.error(
+            `Models > participants > Error fetching opponents for ${puuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+/**
+ * Fills match_participants from raw_matches stored before the table existed.
+ * Returns the number of matches processed.
+ */
+export async function backfillMatchParticipants(
+    batchSize = 100
+): Promise<number> {
+    try {
+        let processed = 0;
+        let cursor: string | undefined;
+
+        while (true) {
+            const rawMatches = await prisma.rawMatch.findMany({
+                where: {
+                    participants: { none: {} },
+                    ...(cursor ? { match_id: { gt: cursor } } : {}),
+                },
+                orderBy: { match_id: "asc" },
+                take: batchSize,
+                select: { match_id: true, data: true },
+            });
+            if (rawMatches.length === 0) {
+                break;
+            }
+
+            for (const rawMatch of rawMatches) {
+                await saveMatchParticipants(
+                    rawMatch.data as unknown as RiotMatchResponse
+                );
+            }
+
+            processed += rawMatches.length;
+            cursor = rawMatches[rawMatches.length - 1].match_id;
+            logger.debug(
+                `Models > participants > Backfilled ${processed} matches`
+            );
+        }
+
+        return processed;
+    } catch (error) {
+        logger.error(
+            "Models > participants > Error backfilling participants",
+            error
+        );
+        throw error;
+    }
+}
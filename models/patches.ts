@@ -0,0 +1,78 @@
+import { MatchFilter } from "../types/matches.js";
+import { MatchWhereInput, MATCH_STORAGES } from "./matchStorage.js";
+import { getQueueHandler } from "./queues.js";
+import { logger } from "../utils/logger.js";
+
+export function comparePatches(a: string, b: string): number {
+    const [aMajor, aMinor] = a.split(".").map(Number);
+    const [bMajor, bMinor] = b.split(".").map(Number);
+    return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Lists the patches we have matches for, newest first, with match counts.
+ * Limited to one queue when `queueType` is given.
+ */
+export async function getPatches(
+    queueType?: string
+): Promise<{ patch: string; matches: number }[]> {
+    try {
+        const handler = queueType ? getQueueHandler(queueType) : null;
+        const storages = handler ? [handler.storage] : MATCH_STORAGES;
+        const where: MatchWhereInput = handler
+            ? { queue_id: handler.queueId }
+            : {};
+
+        const counts = new Map<string, number>();
+        for (const storage of storages) {
+            for (const { patch, count } of await storage.countByPatch(where)) {
+                counts.set(patch, (counts.get(patch) ?? 0) + count);
+            }
+        }
+
+        return [...counts.entries()]
+            .map(([patch, matches]) => ({ patch, matches }))
+            .sort((a, b) => comparePatches(b.patch, a.patch));
+    } catch (error) {
+        logger.error("Models > patches > Error fetching patches", error);
+        throw new Error("Database query failed");
+    }
+}
+
+/**
+ * Turns a MatchFilter into a where clause for the match tables. Patches are
+ * "major.minor" strings that don't sort lexically, so `sincePatch` is
+ * expanded to the known patches at or after it.
+ */
+export async function resolveMatchFilter(
+    filter: MatchFilter = {}
+): Promise<MatchWhereInput> {
+    if (filter.patch) {
+        return { patch: filter.patch };
+    }
+
+    if (filter.sincePatch) {
+        const sincePatch = filter.sincePatch;
+        const patches = await getPatches();
+        return {
+            patch: {
+                in: patches
+                    .map(({ patch }) => patch)
+                    .filter((patch) => comparePatches(patch, sincePatch) >= 0),
+            },
+        };
+    }
+
+    return {};
+}
+
+/**
+ * `resolveMatchFilter` for aggregated stats, which leave remakes out unless
+ * `includeRemakes` is set. Match listings keep every stored game.
+ */
+export async function resolveStatsFilter(
+    filter: MatchFilter = {}
+): Promise<MatchWhereInput> {
+    const where = await resolveMatchFilter(filter);
+    return filter.includeRemakes ? where : { ...where, is_remake: false };
+}
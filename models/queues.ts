@@ -1,5 +1,11 @@
-import prisma from "../utils/prisma.js";
 import { RankedSoloMatch, ArenaMatch } from "@prisma/client";
+import {
+    MatchStorage,
+    MatchWhereInput,
+    standardMatchStorage,
+    arenaMatchStorage,
+} from "./matchStorage.js";
+import { QUEUE_ID_MAP, RegisteredQueueType } from "../const/queues.js";
 
 export interface QueueStats {
     totalMatches: number;
@@ -22,6 +28,10 @@ export interface QueueStats {
     gamesSurrendered: number;
 }
 
+export interface RankedStats extends QueueStats {
+    netLpGained: number;
+}
+
 export interface ArenaStats {
     totalMatches: number;
     avgKills: number;
@@ -37,12 +47,99 @@ export interface ArenaStats {
     winRate: number;
 }
 
-interface QueueHandler<T = QueueStats> {
+export interface QueueHandler<T = QueueStats> {
+    queueType: string;
     queueId: number;
-    fetchMatches(puuid: string, startDateEpoch: number): Promise<any[]>;
+    storage: MatchStorage;
+    prettyKeys: Record<string, string>;
+    // Per-game metric name -> match column, for distribution stats
+    metrics: Record<string, string>;
+    fetchMatches(
+        puuid: string,
+        startDateEpoch: number,
+        where?: MatchWhereInput
+    ): Promise<any[]>;
     calculateStats(matches: any[]): T;
 }
 
+const STANDARD_PRETTY_KEYS: Record<string, string> = {
+    totalMatches: "🎮 Total Matches",
+    avgKills: "🔪 Avg. Kills",
+    avgDeaths: "💀 Avg. Deaths",
+    avgKDA: "🗡 Avg. KDA",
+    avgSoloKills: "🔪 Avg. Solo Kills",
+    avgVisionScore: "👁 Avg. Vision Score",
+    avgTeamDamagePercentage: "🤝 Avg. Team Damage Percentage",
+    avgAssists: "🤝 Avg. Assists",
+    avgKillParticipation: "🤝 Avg. Kill Participation",
+    avgGoldPerMinute: "👑 Avg. Gold Per Minute",
+    avgDamagePerMinute: "💥 Avg. Damage Per Minute",
+    avgDamageToChampions: "💥 Avg. Damage To Champions",
+    avgAssistMePings: "🙃 Avg. Assist Me Pings",
+    avgEnemyMissingPings: "🤔 Avg. Enemy Missing Pings",
+    avgControlWardsPlaced: "👀 Avg. Control Wards Placed",
+    abilityUses: "🖖 Ability Uses",
+    gamesSurrendered: "🏳 Games Surrendered",
+    scuttleCrabKills: "🐸 Scuttle Crab Kills",
+    longestWinStreak: "🔥 Longest Win Streak",
+    currentLossStreak: "🥶 Current Loss Streak",
+};
+
+const RANKED_PRETTY_KEYS: Record<string, string> = {
+    ...STANDARD_PRETTY_KEYS,
+    netLpGained: "📈 Net LP Gained",
+};
+
+const ARENA_PRETTY_KEYS: Record<string, string> = {
+    totalMatches: "🎮 Total Matches",
+    avgKills: "🔪 Avg. Kills",
+    avgDeaths: "💀 Avg. Deaths",
+    avgKDA: "🗡 Avg. KDA",
+    avgAssists: "🤝 Avg. Assists",
+    avgDamageToChampions: "💥 Avg. Damage To Champions",
+    avgPlacement: "🏆 Avg. Placement",
+    firstPlaceFinishes: "🥇 1st Place Finishes",
+    secondPlaceFinishes: "🥈 2nd Place Finishes",
+    thirdPlaceFinishes: "🥉 3rd Place Finishes",
+    fourthPlaceFinishes: "4️⃣ 4th Place Finishes",
+    winRate: "✨ Win Rate (%)",
+    longestWinStreak: "🔥 Longest Win Streak",
+    currentLossStreak: "🥶 Current Loss Streak",
+};
+
+const STANDARD_METRICS: Record<string, string> = {
+    kills: "kills",
+    deaths: "deaths",
+    assists: "assists",
+    kda: "kda",
+    soloKills: "solo_kills",
+    visionScore: "vision_score",
+    teamDamagePercentage: "team_damage_percentage",
+    killParticipation: "kill_participation",
+    goldPerMinute: "gold_per_minute",
+    damagePerMinute: "damage_per_minute",
+    damageToChampions: "damage_to_champions",
+    enemyMissingPings: "enemy_missing_pings",
+    assistMePings: "assist_me_pings",
+    controlWardsPlaced: "control_wards_placed",
+    abilityUses: "ability_uses",
+    scuttleCrabKills: "scuttle_crab_kills",
+};
+
+const RANKED_METRICS: Record<string, string> = {
+    ...STANDARD_METRICS,
+    lpChange: "lp_change",
+};
+
+const ARENA_METRICS: Record<string, string> = {
+    kills: "kills",
+    deaths: "deaths",
+    assists: "assists",
+    kda: "kda",
+    damageToChampions: "damage_to_champions",
+    placement: "placement",
+};
+
 function calculateRankedSoloStats(matches: RankedSoloMatch[]): QueueStats {
     if (!matches?.length) {
         return {
@@ -145,6 +242,16 @@ function calculateRankedSoloStats(matches: RankedSoloMatch[]): QueueStats {
     return stats;
 }
 
+function calculateRankedStats(matches: RankedSoloMatch[]): RankedStats {
+    return {
+        ...calculateRankedSoloStats(matches),
+        netLpGained: (matches ?? []).reduce(
+            (sum, match) => sum + (match.lp_change ?? 0),
+            0
+        ),
+    };
+}
+
 function calculateArenaStats(matches: ArenaMatch[]): ArenaStats {
     if (!matches?.length) {
         return {
@@ -228,37 +335,101 @@ function calculateArenaStats(matches: ArenaMatch[]): ArenaStats {
     return stats;
 }
 
-const rankedSoloHandler: QueueHandler<QueueStats> = {
-    queueId: 420,
-    async fetchMatches(puuid: string, startDateEpoch: number) {
-        return await prisma.rankedSoloMatch.findMany({
-            where: {
-                summoner_puuid: puuid,
-                game_start_timestamp: { gte: BigInt(startDateEpoch) },
-            },
-        });
-    },
-    calculateStats: calculateRankedSoloStats,
-};
+/**
+ * Registers a queue: its matches are stored in `storage` (filtered by queue ID)
+ * and summarized by `calculateStats`. `metrics` are the per-game columns that
+ * distribution stats are computed over.
+ */
+function defineQueue<T>(
+    queueType: RegisteredQueueType,
+    storage: MatchStorage,
+    calculateStats: (matches: any[]) => T,
+    prettyKeys: Record<string, string>,
+    metrics: Record<string, string>
+): QueueHandler<T> {
+    const queueId = QUEUE_ID_MAP[queueType];
 
-const arenaHandler: QueueHandler<ArenaStats> = {
-    queueId: 1700,
-    async fetchMatches(puuid: string, startDateEpoch: number) {
-        return await prisma.arenaMatch.findMany({
-            where: {
-                summoner_puuid: puuid,
-                game_start_timestamp: { gte: BigInt(startDateEpoch) },
-            },
-        });
-    },
-    calculateStats: calculateArenaStats,
-};
+    return {
+        queueType,
+        queueId,
+        storage,
+        prettyKeys,
+        metrics,
+        async fetchMatches(
+            puuid: string,
+            startDateEpoch: number,
+            where: MatchWhereInput = {}
+        ) {
+            return await storage.findMany({
+                where: {
+                    ...where,
+                    summoner_puuid: puuid,
+                    queue_id: queueId,
+                    game_start_timestamp: { gte: BigInt(startDateEpoch) },
+                },
+            });
+        },
+        calculateStats,
+    };
+}
 
 export const QUEUE_HANDLERS: Record<string, QueueHandler<any>> = {
-    ranked_solo: rankedSoloHandler,
-    arena: arenaHandler,
+    ranked_solo: defineQueue(
+        "ranked_solo",
+        standardMatchStorage,
+        calculateRankedStats,
+        RANKED_PRETTY_KEYS,
+        RANKED_METRICS
+    ),
+    ranked_flex: defineQueue(
+        "ranked_flex",
+        standardMatchStorage,
+        calculateRankedStats,
+        RANKED_PRETTY_KEYS,
+        RANKED_METRICS
+    ),
+    normal_draft: defineQueue(
+        "normal_draft",
+        standardMatchStorage,
+        calculateRankedSoloStats,
+        STANDARD_PRETTY_KEYS,
+        STANDARD_METRICS
+    ),
+    aram: defineQueue(
+        "aram",
+        standardMatchStorage,
+        calculateRankedSoloStats,
+        STANDARD_PRETTY_KEYS,
+        STANDARD_METRICS
+    ),
+    clash: defineQueue(
+        "clash",
+        standardMatchStorage,
+        calculateRankedSoloStats,
+        STANDARD_PRETTY_KEYS,
+        STANDARD_METRICS
+    ),
+    arena: defineQueue(
+        "arena",
+        arenaMatchStorage,
+        calculateArenaStats,
+        ARENA_PRETTY_KEYS,
+        ARENA_METRICS
+    ),
 };
 
 export function getQueueHandler(queueType: string): QueueHandler<any> | null {
     return QUEUE_HANDLERS[queueType] || null;
 }
+
+export function getQueueHandlerById(queueId: number): QueueHandler<any> | null {
+    return (
+        Object.values(QUEUE_HANDLERS).find(
+            (handler) => handler.queueId === queueId
+        ) || null
+    );
+}
+
+export function getSupportedQueueTypes(): string[] {
+    return Object.keys(QUEUE_HANDLERS);
+}
@@ -1,7 +1,14 @@
 import { getGuildById } from "./guilds.js";
 import { getSummonersByGuildId } from "./summoners.js";
 import { getQueueHandler } from "./queues.js";
-import { fetchSummonerStatsWithName } from "./stats.js";
+import {
+    fetchSummonerStatsWithName,
+    collectDistributions,
+    Distribution,
+} from "./stats.js";
+import { resolveStatsFilter } from "./patches.js";
+import { MatchFilter, StatsDetail } from "../types/matches.js";
+import { fetchSummonerMasteryStats } from "./mastery.js";
 import { logger } from "../utils/logger.js";
 
 interface RankingEntry {
@@ -42,8 +49,13 @@ export async function fetchRankings(
     guildId: string,
     startDate: Date,
     limit: number = 5,
-    queueType: string = "ranked_solo"
-): Promise<Record<string, RankingEntry[]> | null> {
+    queueType: string = "ranked_solo",
+    filter: MatchFilter = {},
+    detail: StatsDetail = "summary"
+): Promise<{
+    rankings: Record<string, RankingEntry[]>;
+    distributions?: Record<string, Record<string, Distribution | null>>;
+} | null> {
     try {
         const guildData = await getGuildById(guildId);
         if (!guildData) {
@@ -69,12 +81,32 @@ export async function fetchRankings(
 
         const startDateEpoch = startDate.getTime();
 
+        const where = await resolveStatsFilter(filter);
+
         const summonerStatsPromises = summoners.map((summoner) =>
-            fetchSummonerStatsWithName(summoner, startDateEpoch, queueType)
+            fetchSummonerStatsWithName(
+                summoner,
+                startDateEpoch,
+                queueType,
+                where,
+                detail
+            )
         );
 
         const summonerStats = await Promise.all(summonerStatsPromises);
-        return aggregateRankings(summonerStats, limit);
+        const rankings = aggregateRankings(
+            summonerStats.map(
+                (summoner) =>
+                    summoner && {
+                        name: summoner.name,
+                        stats: { ...summoner.stats, ...summoner.streaks },
+                    }
+            ),
+            limit
+        );
+        return detail === "full"
+            ? { rankings, distributions: collectDistributions(summonerStats) }
+            : { rankings };
     } catch (error) {
         logger.error(
             `Models > rankings > Error fetching rankings for guild ${guildId}`,
@@ -83,3 +115,43 @@ export async function fetchRankings(
         throw error;
     }
 }
+
+export async function fetchMasteryRankings(
+    guildId: string,
+    startDate: Date,
+    limit: number = 5
+): Promise<Record<string, RankingEntry[]> | null> {
+    try {
+        const guildData = await getGuildById(guildId);
+        if (!guildData) {
+            logger.warn(`Models > rankings > Guild ${guildId} not found`);
+            return null;
+        }
+
+        const summoners = await getSummonersByGuildId(guildId);
+        if (!summoners?.length) {
+            logger.warn(
+                `Models > rankings > No summoners found for guild ${guildId}`
+            );
+            return null;
+        }
+
+        const summonerStats = await Promise.all(
+            summoners.map(async (summoner) => {
+                const stats = await fetchSummonerMasteryStats(
+                    summoner.puuid,
+                    startDate
+                );
+                return stats ? { name: summoner.name, stats } : null;
+            })
+        );
+
+        return aggregateRankings(summonerStats, limit);
+    } catch (error) {
+        logger.error(
+            `Models > rankings > Error fetching mastery rankings for guild ${guildId}`,
+            error
+        );
+        throw error;
+    }
+}
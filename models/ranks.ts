@@ -0,0 +1,467 @@
+import { RankEvent, RankSnapshot } from "@prisma/client";
+import prisma from "../utils/prisma.js";
+import { riotGet } from "../utils/riotClient.js";
+import { logger } from "../utils/logger.js";
+import { RiotLeagueEntry } from "../types/riot.js";
+import { RankEventCursor } from "../types/ranks.js";
+import { QUEUE_ID_MAP, getQueueName } from "../const/queues.js";
+import { encodeRankEventCursor } from "../utils/filters.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// league-v4 queue types we keep snapshots for, keyed to our queue IDs
+const LEAGUE_QUEUE_IDS: Record<string, number> = {
+    RANKED_SOLO_5x5: QUEUE_ID_MAP.ranked_solo,
+    RANKED_FLEX_SR: QUEUE_ID_MAP.ranked_flex,
+};
+
+export const RANKED_QUEUE_IDS = Object.values(LEAGUE_QUEUE_IDS);
+
+const TIERS = [
+    "IRON",
+    "BRONZE",
+    "SILVER",
+    "GOLD",
+    "PLATINUM",
+    "EMERALD",
+    "DIAMOND",
+    "MASTER",
+    "GRANDMASTER",
+    "CHALLENGER",
+];
+const DIVISIONS = ["IV", "III", "II", "I"];
+// Master and above have no divisions and share one LP ladder
+const APEX_TIER_INDEX = TIERS.indexOf("MASTER");
+
+export type RankEventType = "PROMOTION" | "DEMOTION" | "NEW_PEAK";
+
+// How far back snapshot pairs are re-checked for matches that arrived late
+const LP_ATTRIBUTION_DAYS = 7;
+
+/**
+ * Places a rank on a single LP scale (100 LP per division) so the difference
+ * between two snapshots is the LP gained across promotions and demotions.
+ */
+export function toAbsoluteLp(snapshot: {
+    tier: string;
+    division: string;
+    league_points: number;
+}): number {
+    const tierIndex = TIERS.indexOf(snapshot.tier);
+    if (tierIndex >= APEX_TIER_INDEX) {
+        return APEX_TIER_INDEX * 400 + snapshot.league_points;
+    }
+    return (
+        tierIndex * 400 +
+        DIVISIONS.indexOf(snapshot.division) * 100 +
+        snapshot.league_points
+    );
+}
+
+/**
+ * Orders ranks by tier and division, ignoring LP. Apex tiers only have
+ * division I, so they still compare by tier.
+ */
+function toRankLevel(snapshot: { tier: string; division: string }): number {
+    return (
+        TIERS.indexOf(snapshot.tier) * DIVISIONS.length +
+        DIVISIONS.indexOf(snapshot.division)
+    );
+}
+
+function formatRank(tier: string, division: string): string {
+    const tierName = tier.charAt(0) + tier.slice(1).toLowerCase();
+    return TIERS.indexOf(tier) >= APEX_TIER_INDEX
+        ? tierName
+        : `${tierName} ${division}`;
+}
+
+/**
+ * Records a rank event when a new snapshot moves the summoner to a different
+ * tier or division. A promotion above anything seen this season (calendar
+ * year) is stored as NEW_PEAK instead of PROMOTION so it's announced once.
+ * Without an earlier reading this season there is no peak to beat, so the
+ * first promotion of a season stays a PROMOTION.
+ */
+export async function recordRankEvent(
+    previous: RankSnapshot,
+    current: RankSnapshot
+): Promise<void> {
+    const previousLevel = toRankLevel(previous);
+    const currentLevel = toRankLevel(current);
+    if (previousLevel === currentLevel) return;
+
+    let type: RankEventType =
+        currentLevel > previousLevel ? "PROMOTION" : "DEMOTION";
+
+    if (type === "PROMOTION") {
+        const seasonStart = new Date(
+            Date.UTC(current.captured_at.getUTCFullYear(), 0, 1)
+        );
+        const seasonSnapshots = await prisma.rankSnapshot.findMany({
+            where: {
+                summoner_puuid: current.summoner_puuid,
+                queue_id: current.queue_id,
+                captured_at: { gte: seasonStart, lt: current.captured_at },
+            },
+            select: { tier: true, division: true },
+        });
+        if (
+            seasonSnapshots.length > 0 &&
+            currentLevel > Math.max(...seasonSnapshots.map(toRankLevel))
+        ) {
+            type = "NEW_PEAK";
+        }
+    }
+
+    await prisma.rankEvent.create({
+        data: {
+            summoner_puuid: current.summoner_puuid,
+            queue_id: current.queue_id,
+            type,
+            from_tier: previous.tier,
+            from_division: previous.division,
+            to_tier: current.tier,
+            to_division: current.division,
+            league_points: current.league_points,
+            created_at: current.captured_at,
+        },
+    });
+}
+
+function formatSnapshot(snapshot: RankSnapshot) {
+    return {
+        queue_id: snapshot.queue_id,
+        queue_name: getQueueName(snapshot.queue_id),
+        tier: snapshot.tier,
+        division: snapshot.division,
+        league_points: snapshot.league_points,
+        wins: snapshot.wins,
+        losses: snapshot.losses,
+        captured_at: snapshot.captured_at,
+        last_seen_at: snapshot.last_seen_at,
+    };
+}
+
+async function fetchLeagueEntries(
+    summonerPuuid: string,
+    region: string
+): Promise<RiotLeagueEntry[]> {
+    const encodedPuuid = encodeURIComponent(summonerPuuid);
+    const entries = await riotGet<RiotLeagueEntry[]>(
+        region,
+        "league-v4.getLeagueEntriesByPUUID",
+        `/lol/league/v4/entries/by-puuid/${encodedPuuid}`
+    );
+    return entries ?? [];
+}
+
+/**
+ * Fetches a summoner's league entries and stores one snapshot per ranked
+ * queue. Returns the number of queues whose rank changed since the last run.
+ */
+export async function snapshotSummonerRanks(summoner: {
+    name: string;
+    puuid: string;
+    region: string;
+}): Promise<number> {
+    try {
+        const entries = await fetchLeagueEntries(
+            summoner.puuid,
+            summoner.region
+        );
+        const now = new Date();
+        let changed = 0;
+
+        for (const entry of entries) {
+            const queueId = LEAGUE_QUEUE_IDS[entry.queueType];
+            if (queueId === undefined) continue;
+
+            const latest = await prisma.rankSnapshot.findFirst({
+                where: { summoner_puuid: summoner.puuid, queue_id: queueId },
+                orderBy: { captured_at: "desc" },
+            });
+
+            const unchanged =
+                latest &&
+                latest.tier === entry.tier &&
+                latest.division === entry.rank &&
+                latest.league_points === entry.leaguePoints &&
+                latest.wins === entry.wins &&
+                latest.losses === entry.losses;
+
+            if (unchanged) {
+                await prisma.rankSnapshot.update({
+                    where: { id: latest.id },
+                    data: { last_seen_at: now },
+                });
+                continue;
+            }
+
+            const reading = {
+                summoner_puuid: summoner.puuid,
+                queue_id: queueId,
+                tier: entry.tier,
+                division: entry.rank,
+                league_points: entry.leaguePoints,
+                wins: entry.wins,
+                losses: entry.losses,
+            };
+
+            // Another pass may have stored this reading since it was read
+            // above; it then owns the rank event and only last_seen_at moves
+            const { count } = await prisma.rankSnapshot.createMany({
+                data: [{ ...reading, captured_at: now, last_seen_at: now }],
+                skipDuplicates: true,
+            });
+            const snapshot = await prisma.rankSnapshot.update({
+                where: { summoner_queue_reading: reading },
+                data: { last_seen_at: now },
+            });
+            if (count === 0) continue;
+
+            if (latest) {
+                await recordRankEvent(latest, snapshot);
+            }
+            changed++;
+        }
+
+        logger.debug(
+            `Models > ranks > ${summoner.name}: ${changed} of ${entries.length} league entries changed`
+        );
+        return changed;
+    } catch (error) {
+        logger.error(
+            `Models > ranks > Error snapshotting ranks for ${summoner.name}`,
+            error
+        );
+        throw error;
+    }
+}
+
+/**
+ * Splits the LP difference between consecutive snapshots across the matches
+ * that ended between them. The rank changed somewhere after the earlier
+ * snapshot was last seen and before the later one was captured, so matches
+ * ending in that gap are the ones that produced it.
+ *
+ * A gap is only attributed once every game it covers (per the wins/losses
+ * counters) has been stored. Several games are split evenly when they share
+ * a result; mixed results can't be told apart and are left null.
+ */
+async function attributeLpChanges(
+    summonerPuuid: string,
+    queueId: number
+): Promise<number> {
+    const since = new Date(Date.now() - LP_ATTRIBUTION_DAYS * DAY_MS);
+    const snapshots = await prisma.rankSnapshot.findMany({
+        where: {
+            summoner_puuid: summonerPuuid,
+            queue_id: queueId,
+            last_seen_at: { gte: since },
+        },
+        orderBy: { captured_at: "asc" },
+    });
+
+    let attributed = 0;
+
+    for (let i = 1; i < snapshots.length; i++) {
+        const previous = snapshots[i - 1];
+        const next = snapshots[i];
+        const gamesPlayed =
+            next.wins + next.losses - (previous.wins + previous.losses);
+        if (gamesPlayed <= 0) continue;
+
+        const matches = await prisma.rankedSoloMatch.findMany({
+            where: {
+                summoner_puuid: summonerPuuid,
+                queue_id: queueId,
+                // Remakes don't count towards wins and losses or move LP
+                is_remake: false,
+                game_end_timestamp: {
+                    gt: BigInt(previous.last_seen_at.getTime()),
+                    lte: BigInt(next.captured_at.getTime()),
+                },
+            },
+            orderBy: { game_end_timestamp: "asc" },
+        });
+
+        if (
+            matches.length !== gamesPlayed ||
+            matches.some((match) => match.lp_change !== null) ||
+            matches.some((match) => match.win !== matches[0].win)
+        ) {
+            continue;
+        }
+
+        const lpDelta = toAbsoluteLp(next) - toAbsoluteLp(previous);
+        const perMatch = Math.trunc(lpDelta / matches.length);
+
+        for (const [index, match] of matches.entries()) {
+            const isLast = index === matches.length - 1;
+            await prisma.rankedSoloMatch.update({
+                where: { id: match.id },
+                data: {
+                    lp_change: isLast
+                        ? lpDelta - perMatch * (matches.length - 1)
+                        : perMatch,
+                },
+            });
+        }
+        attributed += matches.length;
+    }
+
+    return attributed;
+}
+
+/**
+ * Fills in `lp_change` for a summoner's ranked matches from their snapshots.
+ * Returns the number of matches updated.
+ */
+export async function recordLpChanges(summoner: {
+    name: string;
+    puuid: string;
+}): Promise<number> {
+    try {
+        let attributed = 0;
+        for (const queueId of RANKED_QUEUE_IDS) {
+            attributed += await attributeLpChanges(summoner.puuid, queueId);
+        }
+
+        if (attributed > 0) {
+            logger.debug(
+                `Models > ranks > Attributed LP changes to ${attributed} match(es) for ${summoner.name}`
+            );
+        }
+        return attributed;
+    } catch (error) {
+        logger.error(
+            `Models > ranks > Error recording LP changes for ${summoner.name}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export async function getCurrentRanks(summonerPuuid: string) {
+    try {
+        const snapshots = await prisma.rankSnapshot.findMany({
+            where: { summoner_puuid: summonerPuuid },
+            orderBy: { captured_at: "desc" },
+            distinct: ["queue_id"],
+        });
+
+        return snapshots.map(formatSnapshot);
+    } catch (error) {
+        logger.error(
+            `Models > ranks > Error fetching current ranks for ${summonerPuuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+export async function getRankHistory(
+    summonerPuuid: string,
+    range: number,
+    queueId?: number
+) {
+    try {
+        const since = new Date(Date.now() - range * DAY_MS);
+
+        // Include the snapshot that was current when the range started so the
+        // history doesn't begin with a gap
+        const snapshots = await prisma.rankSnapshot.findMany({
+            where: {
+                summoner_puuid: summonerPuuid,
+                queue_id: queueId,
+                last_seen_at: { gte: since },
+            },
+            orderBy: { captured_at: "asc" },
+        });
+
+        return snapshots.map(formatSnapshot);
+    } catch (error) {
+        logger.error(
+            `Models > ranks > Error fetching rank history for ${summonerPuuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+function formatRankEvent(event: RankEvent & { summoner: { name: string } }) {
+    const to = formatRank(event.to_tier, event.to_division);
+    const messages: Record<string, string> = {
+        PROMOTION: `${event.summoner.name} just promoted to ${to}!`,
+        NEW_PEAK: `${event.summoner.name} just reached a new season high of ${to}!`,
+        DEMOTION: `${event.summoner.name} was demoted to ${to}`,
+    };
+
+    return {
+        id: event.id,
+        type: event.type,
+        summoner_puuid: event.summoner_puuid,
+        summoner_name: event.summoner.name,
+        queue_id: event.queue_id,
+        queue_name: getQueueName(event.queue_id),
+        from: formatRank(event.from_tier, event.from_division),
+        to,
+        league_points: event.league_points,
+        message: messages[event.type],
+        created_at: event.created_at,
+    };
+}
+
+/**
+ * Lists a guild's rank events in creation order, starting after `cursor`
+ * when given and after `since` otherwise.
+ */
+export async function getRankEventsByGuildId(
+    guildId: string,
+    since: Date,
+    cursor?: RankEventCursor,
+    limit: number = 100
+) {
+    try {
+        const events = await prisma.rankEvent.findMany({
+            where: {
+                ...(cursor
+                    ? {
+                          OR: [
+                              { created_at: { gt: cursor.createdAt } },
+                              {
+                                  created_at: cursor.createdAt,
+                                  id: { gt: cursor.id },
+                              },
+                          ],
+                      }
+                    : { created_at: { gt: since } }),
+                summoner: {
+                    guilds: { some: { guild_id: BigInt(guildId) } },
+                },
+            },
+            orderBy: [{ created_at: "asc" }, { id: "asc" }],
+            take: limit + 1,
+            include: { summoner: { select: { name: true } } },
+        });
+
+        const page = events.slice(0, limit);
+        const last = page[page.length - 1];
+        const nextCursor =
+            events.length > limit && last
+                ? encodeRankEventCursor({
+                      createdAt: last.created_at,
+                      id: last.id,
+                  })
+                : null;
+
+        return { events: page.map(formatRankEvent), nextCursor };
+    } catch (error) {
+        logger.error(
+            `Models > ranks > Error fetching rank events for guild ${guildId}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
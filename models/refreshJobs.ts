@@ -0,0 +1,150 @@
+import { randomUUID } from "crypto";
+import { cacheMatchData } from "./matches.js";
+import { getSummonerByPuuid } from "./summoners.js";
+import { getQueueHandler } from "./queues.js";
+import { logger } from "../utils/logger.js";
+
+// A summoner can be refreshed at most once per cooldown; requests inside it
+// get the previous job back instead of starting a new one
+const REFRESH_COOLDOWN_MS = 2 * 60 * 1000;
+// Finished jobs are kept this long so clients can still poll them
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+export type RefreshJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface RefreshJob {
+    id: string;
+    summonerPuuid: string;
+    queueTypes: string[];
+    status: RefreshJobStatus;
+    runId: string | null;
+    queuesCompleted: number;
+    matchesSaved: number;
+    error: string | null;
+    createdAt: Date;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+}
+
+export type EnqueueRefreshResult =
+    | { status: "created" | "coalesced"; job: RefreshJob }
+    | { status: "throttled"; job: RefreshJob; retryAfterSeconds: number };
+
+const jobs = new Map<string, RefreshJob>();
+const latestJobBySummoner = new Map<string, string>();
+
+// Refreshes run one at a time, sharing the Riot rate limits with the cron job
+let jobQueue: Promise<void> = Promise.resolve();
+
+function pruneExpiredJobs(): void {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    for (const [id, job] of jobs) {
+        if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+            jobs.delete(id);
+            if (latestJobBySummoner.get(job.summonerPuuid) === id) {
+                latestJobBySummoner.delete(job.summonerPuuid);
+            }
+        }
+    }
+}
+
+async function runRefreshJob(job: RefreshJob): Promise<void> {
+    job.status = "running";
+    job.startedAt = new Date();
+
+    try {
+        const summoner = await getSummonerByPuuid(job.summonerPuuid);
+        if (!summoner) {
+            throw new Error(`Summoner ${job.summonerPuuid} is not tracked`);
+        }
+
+        const queueIds = job.queueTypes
+            .map((queueType) => getQueueHandler(queueType)?.queueId)
+            .filter((queueId): queueId is number => queueId !== undefined);
+
+        const { runId } = await cacheMatchData(queueIds, {
+            trigger: "refresh",
+            summoners: [summoner],
+            onQueueComplete: (_queueId, matchesSaved) => {
+                job.matchesSaved += matchesSaved;
+                job.queuesCompleted++;
+            },
+        });
+        job.runId = runId;
+
+        job.status = "completed";
+        logger.info(
+            `Models > refreshJobs > Job ${job.id} for ${summoner.name} saved ${job.matchesSaved} new matches`
+        );
+    } catch (error) {
+        job.status = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+        logger.error(`Models > refreshJobs > Job ${job.id} failed`, error);
+    } finally {
+        job.finishedAt = new Date();
+    }
+}
+
+export function enqueueSummonerRefresh(
+    summonerPuuid: string,
+    queueTypes: string[]
+): EnqueueRefreshResult {
+    pruneExpiredJobs();
+
+    const latestJobId = latestJobBySummoner.get(summonerPuuid);
+    const latestJob = latestJobId ? jobs.get(latestJobId) : undefined;
+
+    if (latestJob && !latestJob.finishedAt) {
+        // Fold extra queues into a job that hasn't started yet
+        if (latestJob.status === "queued") {
+            for (const queueType of queueTypes) {
+                if (!latestJob.queueTypes.includes(queueType)) {
+                    latestJob.queueTypes.push(queueType);
+                }
+            }
+        }
+        return { status: "coalesced", job: latestJob };
+    }
+
+    if (latestJob?.finishedAt) {
+        const elapsed = Date.now() - latestJob.finishedAt.getTime();
+        if (elapsed < REFRESH_COOLDOWN_MS) {
+            return {
+                status: "throttled",
+                job: latestJob,
+                retryAfterSeconds: Math.ceil(
+                    (REFRESH_COOLDOWN_MS - elapsed) / 1000
+                ),
+            };
+        }
+    }
+
+    const job: RefreshJob = {
+        id: randomUUID(),
+        summonerPuuid,
+        queueTypes: [...queueTypes],
+        status: "queued",
+        runId: null,
+        queuesCompleted: 0,
+        matchesSaved: 0,
+        error: null,
+        createdAt: new Date(),
+        startedAt: null,
+        finishedAt: null,
+    };
+
+    jobs.set(job.id, job);
+    latestJobBySummoner.set(summonerPuuid, job.id);
+    jobQueue = jobQueue.then(() => runRefreshJob(job));
+
+    logger.debug(
+        `Models > refreshJobs > Queued job ${job.id} for ${summonerPuuid}: ${job.queueTypes.join(", ")}`
+    );
+
+    return { status: "created", job };
+}
+
+export function getRefreshJob(jobId: string): RefreshJob | null {
+    pruneExpiredJobs();
+    return jobs.get(jobId) || null;
+}
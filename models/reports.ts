@@ -1,7 +1,13 @@
 import { getGuildById } from "./guilds.js";
 import { getSummonersByGuildId } from "./summoners.js";
 import { getQueueHandler } from "./queues.js";
-import { fetchSummonerStatsWithName } from "./stats.js";
+import {
+    fetchSummonerStatsWithName,
+    collectDistributions,
+    Distribution,
+} from "./stats.js";
+import { resolveStatsFilter } from "./patches.js";
+import { MatchFilter, StatsDetail } from "../types/matches.js";
 import { logger } from "../utils/logger.js";
 
 interface ReportStat {
@@ -33,8 +39,13 @@ function findMaxStats(
 export async function fetchReportByDayRange(
     guildId: string,
     range: number = 7,
-    queueType: string = "ranked_solo"
-): Promise<Record<string, ReportStat> | null> {
+    queueType: string = "ranked_solo",
+    filter: MatchFilter = {},
+    detail: StatsDetail = "summary"
+): Promise<{
+    report: Record<string, ReportStat>;
+    distributions?: Record<string, Record<string, Distribution | null>>;
+} | null> {
     try {
         const guildData = await getGuildById(guildId);
         if (!guildData) {
@@ -60,8 +71,16 @@ export async function fetchReportByDayRange(
 
         const startDateEpoch = Date.now() - range * 24 * 60 * 60 * 1000;
 
+        const where = await resolveStatsFilter(filter);
+
         const summonerStatsPromises = summoners.map((summoner) =>
-            fetchSummonerStatsWithName(summoner, startDateEpoch, queueType)
+            fetchSummonerStatsWithName(
+                summoner,
+                startDateEpoch,
+                queueType,
+                where,
+                detail
+            )
         );
 
         const summonerStats = await Promise.all(summonerStatsPromises);
@@ -71,7 +90,10 @@ export async function fetchReportByDayRange(
             return null;
         }
 
-        return findMaxStats(summonerStats);
+        const report = findMaxStats(summonerStats);
+        return detail === "full"
+            ? { report, distributions: collectDistributions(summonerStats) }
+            : { report };
     } catch (error) {
         logger.error(
             `Models > reports > Error fetching report for guild ${guildId}`,
@@ -1,5 +1,6 @@
-import axios from "axios";
 import { logger } from "../utils/logger.js";
+import { riotGet, getRiotStatusCode } from "../utils/riotClient.js";
+import { getAreaFromRegion } from "../utils/processing.js";
 
 export const regions = [
     "na1",
@@ -21,7 +22,24 @@ export const regions = [
 ] as const;
 
 export type Region = (typeof regions)[number];
-const API_KEY = process.env.RIOT_API_KEY;
+
+export function isRegion(value: string): value is Region {
+    return (regions as readonly string[]).includes(value);
+}
+
+/**
+ * account-v1 is served from americas, asia and europe only; any of them can
+ * answer for any account, so the closest one to the player is picked.
+ */
+function getAccountRouting(
+    regionHint?: string
+): "americas" | "asia" | "europe" {
+    const area = regionHint ? getAreaFromRegion(regionHint) : undefined;
+    if (area === "sea") {
+        return "asia";
+    }
+    return area || "americas";
+}
 
 export function checkRiotIdFormat(riotId: string): boolean {
     // Riot IDs should be in format "GameName #TAG"
@@ -41,7 +59,8 @@ export function checkRiotIdFormat(riotId: string): boolean {
 }
 
 export async function fetchSummonerPuuidByRiotId(
-    summonerRiotId: string
+    summonerRiotId: string,
+    regionHint?: string
 ): Promise<string | null> {
     if (!checkRiotIdFormat(summonerRiotId)) {
         logger.warn(
@@ -51,16 +70,18 @@ export async function fetchSummonerPuuidByRiotId(
     }
 
     const [gameName, tag] = summonerRiotId.split(" #");
-    const region = "americas";
+    const region = getAccountRouting(regionHint);
 
     const encodedGameName = encodeURIComponent(gameName);
     const encodedTag = encodeURIComponent(tag);
 
-    const url = `https://${region}.api.riotgames.com/riot/account/v1/accounts/by-riot-id/${encodedGameName}/${encodedTag}?api_key=${API_KEY}`;
-
     try {
-        const response = await axios.get<{ puuid?: string }>(url);
-        return response.data?.puuid || null;
+        const account = await riotGet<{ puuid?: string }>(
+            region,
+            "account-v1.getByRiotId",
+            `/riot/account/v1/accounts/by-riot-id/${encodedGameName}/${encodedTag}`
+        );
+        return account?.puuid || null;
     } catch (error) {
         logger.error(
             `Models > riot > Error fetching PUUID for Riot ID "${summonerRiotId}"`,
@@ -70,27 +91,105 @@ export async function fetchSummonerPuuidByRiotId(
     }
 }
 
+export async function fetchRiotIdByPuuid(
+    summonerPuuid: string,
+    regionHint?: string
+): Promise<string | null> {
+    const region = getAccountRouting(regionHint);
+    const encodedPuuid = encodeURIComponent(summonerPuuid);
+
+    try {
+        const account = await riotGet<{ gameName?: string; tagLine?: string }>(
+            region,
+            "account-v1.getByPuuid",
+            `/riot/account/v1/accounts/by-puuid/${encodedPuuid}`
+        );
+        if (!account?.gameName || !account?.tagLine) {
+            return null;
+        }
+        return `${account.gameName} #${account.tagLine}`;
+    } catch (error) {
+        logger.error(
+            `Models > riot > Error fetching Riot ID for PUUID "${summonerPuuid}"`,
+            error
+        );
+        return null;
+    }
+}
+
+async function fetchActiveRegion(
+    summonerPuuid: string,
+    regionHint?: string
+): Promise<Region | null> {
+    const encodedPuuid = encodeURIComponent(summonerPuuid);
+
+    try {
+        const shard = await riotGet<{ region?: string }>(
+            getAccountRouting(regionHint),
+            "account-v1.getActiveRegion",
+            `/riot/account/v1/region/by-game/lol/by-puuid/${encodedPuuid}`
+        );
+        const region = shard?.region?.toLowerCase();
+        return region && isRegion(region) ? region : null;
+    } catch (error) {
+        if (getRiotStatusCode(error) === 404) {
+            logger.debug(
+                `Models > riot > No active LoL region for PUUID "${summonerPuuid}"`
+            );
+        } else {
+            logger.error(
+                `Models > riot > Error fetching active region for PUUID "${summonerPuuid}"`,
+                error
+            );
+        }
+        return null;
+    }
+}
+
+async function summonerExistsInRegion(
+    summonerPuuid: string,
+    region: Region
+): Promise<boolean> {
+    const encodedPuuid = encodeURIComponent(summonerPuuid);
+
+    try {
+        const summoner = await riotGet(
+            region,
+            "summoner-v4.getByPUUID",
+            `/lol/summoner/v4/summoners/by-puuid/${encodedPuuid}`
+        );
+        return !!summoner;
+    } catch (error) {
+        if (getRiotStatusCode(error) !== 404) {
+            logger.error(
+                `Models > riot > Error fetching summoner data from region "${region}"`
+            );
+        }
+        return false;
+    }
+}
+
+/**
+ * Resolves the platform a player's LoL account lives on via the account-v1
+ * active region lookup. Only if that fails is the hint checked and, as a
+ * last resort, every platform probed with summoner-v4.
+ */
 export async function getSummonerRegion(
-    summonerPuuid: string
+    summonerPuuid: string,
+    regionHint?: Region
 ): Promise<Region | null> {
-    for (const region of regions) {
-        const encodedPuuid = encodeURIComponent(summonerPuuid);
-        const url = `https://${region}.api.riotgames.com/lol/summoner/v4/summoners/by-puuid/${encodedPuuid}?api_key=${API_KEY}`;
-
-        try {
-            const response = await axios.get(url);
-            if (response.data) {
-                return region;
-            }
-        } catch (error: any) {
-            if (error.response && error.response.status === 404) {
-                continue;
-            } else {
-                logger.error(
-                    `Models > riot > Error fetching summoner data from region "${region}"`
-                );
-                continue;
-            }
+    const activeRegion = await fetchActiveRegion(summonerPuuid, regionHint);
+    if (activeRegion) {
+        return activeRegion;
+    }
+
+    const candidates = regionHint
+        ? [regionHint, ...regions.filter((region) => region !== regionHint)]
+        : regions;
+
+    for (const region of candidates) {
+        if (await summonerExistsInRegion(summonerPuuid, region)) {
+            return region;
         }
     }
 
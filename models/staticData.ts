@@ -0,0 +1,289 @@
+import axios from "axios";
+import fs from "fs";
+import path from "path";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Champion, item and Arena augment metadata from Data Dragon and
+ * CommunityDragon, served from a local snapshot so lookups never hit the
+ * network. `npm run static-data` downloads the latest patch into
+ * STATIC_DATA_DIR/<version>/ (default static-data/) and points
+ * manifest.json at it.
+ */
+
+const MANIFEST_FILE = "manifest.json";
+const DDRAGON_BASE_URL = "https://ddragon.leagueoflegends.com";
+const CDRAGON_BASE_URL = "https://raw.communitydragon.org/latest";
+const LOCALE = "en_US";
+// How often lookups check manifest.json for a snapshot written elsewhere
+const MANIFEST_CHECK_INTERVAL_MS = 60 * 1000;
+
+export interface StaticChampion {
+    id: number;
+    key: string;
+    name: string;
+    title: string;
+    icon: string;
+}
+
+export interface StaticItem {
+    id: number;
+    name: string;
+    description: string;
+    gold: number;
+    icon: string;
+}
+
+export interface StaticAugment {
+    id: number;
+    name: string;
+    description: string;
+    rarity: number;
+    icon: string;
+}
+
+interface StaticDataSnapshot {
+    version: string;
+    refreshedAt: string;
+    champions: Map<number, StaticChampion>;
+    items: Map<number, StaticItem>;
+    augments: Map<number, StaticAugment>;
+}
+
+interface StaticDataManifest {
+    version: string;
+    refreshedAt: string;
+}
+
+let snapshot: StaticDataSnapshot | null = null;
+// mtime of the manifest the snapshot was loaded from
+let snapshotManifestMtimeMs: number | null = null;
+let manifestCheckedAt = 0;
+let warnedMissingSnapshot = false;
+
+// Read lazily: scripts load .env after their imports
+function getStaticDataDir(): string {
+    return process.env.STATIC_DATA_DIR || "static-data";
+}
+
+function readJson<T>(...segments: string[]): T {
+    return JSON.parse(
+        fs.readFileSync(path.join(getStaticDataDir(), ...segments), "utf-8")
+    );
+}
+
+function writeJson(data: unknown, ...segments: string[]): void {
+    const filePath = path.join(getStaticDataDir(), ...segments);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+function parseChampions(
+    raw: any,
+    version: string
+): Map<number, StaticChampion> {
+    const champions = new Map<number, StaticChampion>();
+    for (const champion of Object.values<any>(raw.data)) {
+        const id = Number(champion.key);
+        champions.set(id, {
+            id,
+            key: champion.id,
+            name: champion.name,
+            title: champion.title,
+            icon: `${DDRAGON_BASE_URL}/cdn/${version}/img/champion/${champion.image.full}`,
+        });
+    }
+    return champions;
+}
+
+function parseItems(raw: any, version: string): Map<number, StaticItem> {
+    const items = new Map<number, StaticItem>();
+    for (const [id, item] of Object.entries<any>(raw.data)) {
+        items.set(Number(id), {
+            id: Number(id),
+            name: item.name,
+            description: item.plaintext ?? "",
+            gold: item.gold?.total ?? 0,
+            icon: `${DDRAGON_BASE_URL}/cdn/${version}/img/item/${item.image.full}`,
+        });
+    }
+    return items;
+}
+
+function parseAugments(raw: any): Map<number, StaticAugment> {
+    const augments = new Map<number, StaticAugment>();
+    for (const augment of raw.augments ?? []) {
+        augments.set(augment.id, {
+            id: augment.id,
+            name: augment.name,
+            description: augment.desc ?? "",
+            rarity: augment.rarity ?? 0,
+            icon: `${CDRAGON_BASE_URL}/game/${String(augment.iconLarge ?? "").toLowerCase()}`,
+        });
+    }
+    return augments;
+}
+
+/**
+ * Returns the snapshot currently on disk, loading it on first use and again
+ * whenever manifest.json changes (`npm run static-data` runs in its own
+ * process). The manifest is checked at most once per
+ * MANIFEST_CHECK_INTERVAL_MS. Null when no snapshot has been downloaded yet.
+ */
+function loadSnapshot(): StaticDataSnapshot | null {
+    const now = Date.now();
+    if (now - manifestCheckedAt < MANIFEST_CHECK_INTERVAL_MS) {
+        return snapshot;
+    }
+    manifestCheckedAt = now;
+
+    try {
+        const manifestMtimeMs = fs.statSync(
+            path.join(getStaticDataDir(), MANIFEST_FILE)
+        ).mtimeMs;
+        if (snapshot && manifestMtimeMs === snapshotManifestMtimeMs) {
+            return snapshot;
+        }
+
+        const manifest = readJson<StaticDataManifest>(MANIFEST_FILE);
+        const { version } = manifest;
+
+        snapshot = {
+            version,
+            refreshedAt: manifest.refreshedAt,
+            champions: parseChampions(
+                readJson(version, "champion.json"),
+                version
+            ),
+            items: parseItems(readJson(version, "item.json"), version),
+            augments: parseAugments(readJson(version, "arena.json")),
+        };
+        snapshotManifestMtimeMs = manifestMtimeMs;
+
+        logger.info(
+            `Models > staticData > Loaded static data for patch ${version}`
+        );
+        return snapshot;
+    } catch (error) {
+        // Keep serving the loaded patch if a refresh is still being written
+        if (snapshot) {
+            return snapshot;
+        }
+        if (!warnedMissingSnapshot) {
+            warnedMissingSnapshot = true;
+            logger.warn(
+                `Models > staticData > No static data snapshot found in '${getStaticDataDir()}'. Run 'npm run static-data' to download one`
+            );
+        }
+        return null;
+    }
+}
+
+export function getStaticDataVersion(): string | null {
+    return loadSnapshot()?.version ?? null;
+}
+
+export function getChampions(): StaticChampion[] | null {
+    const data = loadSnapshot();
+    return data ? [...data.champions.values()] : null;
+}
+
+export function getItems(): StaticItem[] | null {
+    const data = loadSnapshot();
+    return data ? [...data.items.values()] : null;
+}
+
+export function getAugments(): StaticAugment[] | null {
+    const data = loadSnapshot();
+    return data ? [...data.augments.values()] : null;
+}
+
+export function getChampionById(id: number): StaticChampion | null {
+    return loadSnapshot()?.champions.get(id) ?? null;
+}
+
+export function getItemById(id: number): StaticItem | null {
+    return loadSnapshot()?.items.get(id) ?? null;
+}
+
+export function getAugmentById(id: number): StaticAugment | null {
+    return loadSnapshot()?.augments.get(id) ?? null;
+}
+
+function collectIds(match: Record<string, any>, prefix: string): number[] {
+    return Object.keys(match)
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .map((key) => match[key])
+        .filter((id) => typeof id === "number" && id > 0);
+}
+
+/**
+ * Adds resolved names and icons for the champion, items and augments on a
+ * stored match row. Ids that aren't in the snapshot are returned as null.
+ */
+export function enrichMatch<T extends Record<string, any>>(match: T) {
+    const champion = getChampionById(match.champion_id);
+
+    return {
+        ...match,
+        champion: champion
+            ? { name: champion.name, icon: champion.icon }
+            : null,
+        items: collectIds(match, "item_").map((id) => {
+            const item = getItemById(id);
+            return { id, name: item?.name ?? null, icon: item?.icon ?? null };
+        }),
+        augments: collectIds(match, "player_augment_").map((id) => {
+            const augment = getAugmentById(id);
+            return {
+                id,
+                name: augment?.name ?? null,
+                icon: augment?.icon ?? null,
+            };
+        }),
+    };
+}
+
+/**
+ * Downloads the latest Data Dragon patch and the CommunityDragon Arena data
+ * into the snapshot directory. Returns the version that is now current.
+ */
+export async function refreshStaticData(): Promise<string> {
+    try {
+        const { data: versions } = await axios.get<string[]>(
+            `${DDRAGON_BASE_URL}/api/versions.json`
+        );
+        const version = versions[0];
+
+        const [champions, items, arena] = await Promise.all([
+            axios.get(
+                `${DDRAGON_BASE_URL}/cdn/${version}/data/${LOCALE}/champion.json`
+            ),
+            axios.get(
+                `${DDRAGON_BASE_URL}/cdn/${version}/data/${LOCALE}/item.json`
+            ),
+            axios.get(
+                `${CDRAGON_BASE_URL}/cdragon/arena/${LOCALE.toLowerCase()}.json`
+            ),
+        ]);
+
+        writeJson(champions.data, version, "champion.json");
+        writeJson(items.data, version, "item.json");
+        writeJson(arena.data, version, "arena.json");
+        writeJson(
+            { version, refreshedAt: new Date().toISOString() },
+            MANIFEST_FILE
+        );
+        // Pick the new patch up on the next lookup
+        manifestCheckedAt = 0;
+
+        logger.success(
+            `Models > staticData > Static data refreshed to patch ${version}`
+        );
+        return version;
+    } catch (error) {
+        logger.error("Models > staticData > Error refreshing static data", error);
+        throw error;
+    }
+}
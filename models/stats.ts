@@ -1,42 +1,143 @@
-import { getQueueHandler, QueueStats } from "./queues.js";
+import { getQueueHandler, QueueHandler, QueueStats } from "./queues.js";
+import { getSummonersByGuildId } from "./summoners.js";
+import { MatchWhereInput } from "./matchStorage.js";
+import { resolveStatsFilter } from "./patches.js";
+import { MatchFilter, StatsDetail } from "../types/matches.js";
 import { logger } from "../utils/logger.js";
 
+export interface Distribution {
+    median: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    p25: number;
+    p75: number;
+}
+
 export interface SummonerStatsWithName {
     name: string;
     stats: Record<string, number>;
+    // Kept apart from stats: they're ranking categories, not report stats
+    streaks: { longestWinStreak: number; currentLossStreak: number };
+    distribution?: Record<string, Distribution | null>;
 }
 
-const PRETTY_KEYS: Record<string, string> = {
-    totalMatches: "🎮 Total Matches",
-    avgKills: "🔪 Avg. Kills",
-    avgDeaths: "💀 Avg. Deaths",
-    avgKDA: "🗡 Avg. KDA",
-    avgSoloKills: "🔪 Avg. Solo Kills",
-    avgVisionScore: "👁 Avg. Vision Score",
-    avgTeamDamagePercentage: "🤝 Avg. Team Damage Percentage",
-    avgAssists: "🤝 Avg. Assists",
-    avgKillParticipation: "🤝 Avg. Kill Participation",
-    avgGoldPerMinute: "👑 Avg. Gold Per Minute",
-    avgDamagePerMinute: "💥 Avg. Damage Per Minute",
-    avgDamageToChampions: "💥 Avg. Damage To Champions",
-    avgAssistMePings: "🙃 Avg. Assist Me Pings",
-    avgEnemyMissingPings: "🤔 Avg. Enemy Missing Pings",
-    avgControlWardsPlaced: "👀 Avg. Control Wards Placed",
-    abilityUses: "🖖 Ability Uses",
-    gamesSurrendered: "🏳 Games Surrendered",
-    scuttleCrabKills: "🐸 Scuttle Crab Kills",
-    avgPlacement: "🏆 Avg. Placement",
-    firstPlaceFinishes: "🥇 1st Place Finishes",
-    secondPlaceFinishes: "🥈 2nd Place Finishes",
-    thirdPlaceFinishes: "🥉 3rd Place Finishes",
-    fourthPlaceFinishes: "4️⃣ 4th Place Finishes",
-    winRate: "✨ Win Rate (%)",
-};
+export interface StreakStats {
+    currentStreak: { type: "win" | "loss" | null; length: number };
+    longestWinStreak: number;
+    longestLossStreak: number;
+}
+
+/**
+ * Walks matches oldest to newest. The current streak is the run of identical
+ * results ending with the most recent match.
+ */
+export function calculateStreaks(matches: any[]): StreakStats {
+    const ordered = [...matches].sort((a, b) =>
+        Number(a.game_start_timestamp - b.game_start_timestamp)
+    );
+
+    let longestWinStreak = 0;
+    let longestLossStreak = 0;
+    let streakType: "win" | "loss" | null = null;
+    let streakLength = 0;
+
+    for (const match of ordered) {
+        const result = match.win ? "win" : "loss";
+        streakLength = result === streakType ? streakLength + 1 : 1;
+        streakType = result;
+
+        if (result === "win") {
+            longestWinStreak = Math.max(longestWinStreak, streakLength);
+        } else {
+            longestLossStreak = Math.max(longestLossStreak, streakLength);
+        }
+    }
+
+    return {
+        currentStreak: { type: streakType, length: streakLength },
+        longestWinStreak,
+        longestLossStreak,
+    };
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+// Linear interpolation between the closest ranks of a sorted list
+function percentile(sorted: number[], p: number): number {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
 
-export function makePretty(stats: Record<string, any>): Record<string, any> {
+/**
+ * Median, population standard deviation, range and quartiles of `values`.
+ * Null when there are no values.
+ */
+export function calculateDistribution(values: number[]): Distribution | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const variance =
+        sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+        sorted.length;
+
+    return {
+        median: round(percentile(sorted, 0.5)),
+        stdDev: round(Math.sqrt(variance)),
+        min: round(sorted[0]),
+        max: round(sorted[sorted.length - 1]),
+        p25: round(percentile(sorted, 0.25)),
+        p75: round(percentile(sorted, 0.75)),
+    };
+}
+
+/**
+ * Distribution of each of the queue's per-game metrics over `matches`.
+ * Missing values (e.g. LP not yet attributed) are skipped.
+ */
+export function calculateDistributions(
+    handler: QueueHandler<any>,
+    matches: any[]
+): Record<string, Distribution | null> {
+    return Object.fromEntries(
+        Object.entries(handler.metrics).map(([metric, column]) => [
+            metric,
+            calculateDistribution(
+                matches
+                    .map((match) => match[column])
+                    .filter((value): value is number => value != null)
+            ),
+        ])
+    );
+}
+
+/**
+ * Per-summoner distributions from `fetchSummonerStatsWithName` results,
+ * keyed by summoner name.
+ */
+export function collectDistributions(
+    summonerStats: (SummonerStatsWithName | null)[]
+): Record<string, Record<string, Distribution | null>> {
+    const result: Record<string, Record<string, Distribution | null>> = {};
+    for (const summoner of summonerStats) {
+        if (summoner?.distribution) {
+            result[summoner.name] = summoner.distribution;
+        }
+    }
+    return result;
+}
+
+export function makePretty(
+    stats: Record<string, any>,
+    queueType: string
+): Record<string, any> {
+    const prettyKeys = getQueueHandler(queueType)?.prettyKeys ?? {};
     const result: Record<string, any> = {};
     for (const key in stats) {
-        const prettyKey = PRETTY_KEYS[key] || key;
+        const prettyKey = prettyKeys[key] || key;
         result[prettyKey] = stats[key];
     }
     return result;
@@ -45,26 +146,47 @@ export function makePretty(stats: Record<string, any>): Record<string, any> {
 export async function fetchSummonerStatsWithName(
     summoner: { name: string; puuid: string },
     startDateEpoch: number,
-    queueType: string
+    queueType: string,
+    where: MatchWhereInput = {},
+    detail: StatsDetail = "summary"
 ): Promise<SummonerStatsWithName | null> {
     const handler = getQueueHandler(queueType);
     if (!handler) return null;
 
-    const matches = await handler.fetchMatches(summoner.puuid, startDateEpoch);
+    const matches = await handler.fetchMatches(
+        summoner.puuid,
+        startDateEpoch,
+        where
+    );
     if (!matches?.length) return null;
 
     const stats = handler.calculateStats(matches);
+    const streaks = calculateStreaks(matches);
     return {
         name: summoner.name,
         stats: stats as unknown as Record<string, number>,
+        streaks: {
+            longestWinStreak: streaks.longestWinStreak,
+            currentLossStreak:
+                streaks.currentStreak.type === "loss"
+                    ? streaks.currentStreak.length
+                    : 0,
+        },
+        ...(detail === "full"
+            ? { distribution: calculateDistributions(handler, matches) }
+            : {}),
     };
 }
 
 export async function fetchSummonerStats(
     summonerPuuid: string,
     range: number,
-    queueType: string
-): Promise<QueueStats | null> {
+    queueType: string,
+    filter: MatchFilter = {},
+    detail: StatsDetail = "summary"
+): Promise<
+    (QueueStats & { distribution?: Record<string, Distribution | null> }) | null
+> {
     try {
         const handler = getQueueHandler(queueType);
         if (!handler) {
@@ -77,9 +199,13 @@ export async function fetchSummonerStats(
         const startDateEpoch = Date.now() - range * 24 * 60 * 60 * 1000;
         const matches = await handler.fetchMatches(
             summonerPuuid,
-            startDateEpoch
+            startDateEpoch,
+            await resolveStatsFilter(filter)
         );
-        return handler.calculateStats(matches);
+        const stats = handler.calculateStats(matches);
+        return detail === "full"
+            ? { ...stats, distribution: calculateDistributions(handler, matches) }
+            : stats;
     } catch (error) {
         logger.error(
             `Models > stats > Error fetching stats for ${summonerPuuid}`,
@@ -88,3 +214,331 @@ export async function fetchSummonerStats(
         throw error;
     }
 }
+
+/**
+ * Stats for the same summoner and queue on two patches, plus the change
+ * from `patchA` to `patchB` for every numeric stat.
+ */
+export async function compareSummonerStatsByPatch(
+    summonerPuuid: string,
+    range: number,
+    queueType: string,
+    patchA: string,
+    patchB: string,
+    includeRemakes = false
+) {
+    try {
+        const [statsA, statsB] = await Promise.all([
+            fetchSummonerStats(summonerPuuid, range, queueType, {
+                patch: patchA,
+                includeRemakes,
+            }),
+            fetchSummonerStats(summonerPuuid, range, queueType, {
+                patch: patchB,
+                includeRemakes,
+            }),
+        ]);
+
+        // An empty patch would only echo the other patch's stats back
+        if (!statsA?.totalMatches || !statsB?.totalMatches) {
+            return null;
+        }
+
+        const a = statsA as unknown as Record<string, number>;
+        const b = statsB as unknown as Record<string, number>;
+        const difference: Record<string, number> = {};
+        for (const key of Object.keys(b)) {
+            difference[key] = parseFloat((b[key] - (a[key] ?? 0)).toFixed(2));
+        }
+
+        return {
+            [patchA]: statsA,
+            [patchB]: statsB,
+            difference,
+        };
+    } catch (error) {
+        logger.error(
+            `Models > stats > Error comparing patches for ${summonerPuuid}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export async function fetchSummonerStreaks(
+    summonerPuuid: string,
+    range: number,
+    queueType: string,
+    filter: MatchFilter = {}
+): Promise<StreakStats | null> {
+    try {
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            logger.warn(
+                `Models > stats > Queue type '${queueType}' not supported`
+            );
+            return null;
+        }
+
+        const startDateEpoch = Date.now() - range * 24 * 60 * 60 * 1000;
+        const matches = await handler.fetchMatches(
+            summonerPuuid,
+            startDateEpoch,
+            await resolveStatsFilter(filter)
+        );
+        return calculateStreaks(matches);
+    } catch (error) {
+        logger.error(
+            `Models > stats > Error fetching streaks for ${summonerPuuid}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export type TimeseriesBucket = "day" | "week";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKET_MS: Record<TimeseriesBucket, number> = {
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+};
+
+function calculateGroupStats(
+    handler: QueueHandler<any>,
+    matches: any[]
+): Record<string, number> {
+    const games = matches.length;
+    const wins = matches.filter((m) => m.win).length;
+    return {
+        games,
+        winRate: games ? parseFloat(((wins / games) * 100).toFixed(2)) : 0,
+        ...handler.calculateStats(matches),
+    };
+}
+
+// Start of the UTC day, or of the UTC week (Monday), containing `timestamp`
+function getBucketStart(timestamp: number, bucket: TimeseriesBucket): number {
+    const dayStart = Math.floor(timestamp / DAY_MS) * DAY_MS;
+    if (bucket === "day") {
+        return dayStart;
+    }
+    const daysSinceMonday = (new Date(dayStart).getUTCDay() + 6) % 7;
+    return dayStart - daysSinceMonday * DAY_MS;
+}
+
+/**
+ * Groups matches into day/week buckets covering the whole range (empty
+ * buckets included, so charts have no gaps) and reports games played and
+ * `metric` for each. Empty buckets have a null value.
+ */
+export function buildTimeseries(
+    handler: QueueHandler<any>,
+    matches: any[],
+    startDateEpoch: number,
+    bucket: TimeseriesBucket,
+    metric: string
+) {
+    const matchesByBucket = new Map<number, any[]>();
+    for (const match of matches) {
+        const start = getBucketStart(Number(match.game_start_timestamp), bucket);
+        const bucketMatches = matchesByBucket.get(start);
+        if (bucketMatches) {
+            bucketMatches.push(match);
+        } else {
+            matchesByBucket.set(start, [match]);
+        }
+    }
+
+    const series = [];
+    const lastBucket = getBucketStart(Date.now(), bucket);
+    for (
+        let start = getBucketStart(startDateEpoch, bucket);
+        start <= lastBucket;
+        start += BUCKET_MS[bucket]
+    ) {
+        const bucketMatches = matchesByBucket.get(start) ?? [];
+        const stats = bucketMatches.length
+            ? calculateGroupStats(handler, bucketMatches)
+            : null;
+        series.push({
+            bucketStart: new Date(start).toISOString(),
+            games: bucketMatches.length,
+            value: stats ? stats[metric] : null,
+        });
+    }
+
+    return series;
+}
+
+export async function fetchSummonerTimeseries(
+    summonerPuuid: string,
+    range: number,
+    queueType: string,
+    bucket: TimeseriesBucket,
+    metric: string,
+    filter: MatchFilter = {}
+) {
+    try {
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            logger.warn(
+                `Models > stats > Queue type '${queueType}' not supported`
+            );
+            return null;
+        }
+
+        const startDateEpoch = Date.now() - range * DAY_MS;
+        const matches = await handler.fetchMatches(
+            summonerPuuid,
+            startDateEpoch,
+            await resolveStatsFilter(filter)
+        );
+
+        return buildTimeseries(
+            handler,
+            matches,
+            startDateEpoch,
+            bucket,
+            metric
+        );
+    } catch (error) {
+        logger.error(
+            `Models > stats > Error fetching timeseries for ${summonerPuuid}`,
+            error
+        );
+        throw error;
+    }
+}
+
+/**
+ * One series per summoner tracked in the guild, for comparative charts.
+ */
+export async function fetchGuildTimeseries(
+    guildId: string,
+    range: number,
+    queueType: string,
+    bucket: TimeseriesBucket,
+    metric: string,
+    filter: MatchFilter = {}
+) {
+    try {
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            logger.warn(
+                `Models > stats > Queue type '${queueType}' not supported`
+            );
+            return null;
+        }
+
+        const summoners = await getSummonersByGuildId(guildId);
+        const startDateEpoch = Date.now() - range * DAY_MS;
+        const where = await resolveStatsFilter(filter);
+
+        return await Promise.all(
+            summoners.map(async (summoner) => {
+                const matches = await handler.fetchMatches(
+                    summoner.puuid,
+                    startDateEpoch,
+                    where
+                );
+                return {
+                    name: summoner.name,
+                    puuid: summoner.puuid,
+                    series: buildTimeseries(
+                        handler,
+                        matches,
+                        startDateEpoch,
+                        bucket,
+                        metric
+                    ),
+                };
+            })
+        );
+    } catch (error) {
+        logger.error(
+            `Models > stats > Error fetching timeseries for guild ${guildId}`,
+            error
+        );
+        throw error;
+    }
+}
+
+export interface ChampionStatsOptions {
+    minGames?: number;
+    sortBy?: string;
+    order?: "asc" | "desc";
+}
+
+/**
+ * Stat keys available per group of matches for `queueType`: the queue's own
+ * stats plus games played and win rate. Used to validate sortBy and metric.
+ */
+export function getStatKeys(queueType: string): string[] {
+    const handler = getQueueHandler(queueType);
+    if (!handler) return [];
+    return ["games", "winRate", ...Object.keys(handler.calculateStats([]))];
+}
+
+/**
+ * The queue's usual stats computed per champion, along with games played and
+ * win rate. Champions under `minGames` are left out.
+ */
+export async function fetchSummonerChampionStats(
+    summonerPuuid: string,
+    range: number,
+    queueType: string,
+    filter: MatchFilter = {},
+    options: ChampionStatsOptions = {}
+) {
+    try {
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            logger.warn(
+                `Models > stats > Queue type '${queueType}' not supported`
+            );
+            return null;
+        }
+
+        const { minGames = 1, sortBy = "games", order = "desc" } = options;
+        const startDateEpoch = Date.now() - range * 24 * 60 * 60 * 1000;
+        const matches = await handler.fetchMatches(
+            summonerPuuid,
+            startDateEpoch,
+            await resolveStatsFilter(filter)
+        );
+
+        const matchesByChampion = new Map<number, any[]>();
+        for (const match of matches) {
+            const championMatches = matchesByChampion.get(match.champion_id);
+            if (championMatches) {
+                championMatches.push(match);
+            } else {
+                matchesByChampion.set(match.champion_id, [match]);
+            }
+        }
+
+        const champions = [...matchesByChampion.values()]
+            .filter((championMatches) => championMatches.length >= minGames)
+            .map(
+                (championMatches): Record<string, any> => ({
+                    championId: championMatches[0].champion_id,
+                    championName: championMatches[0].champion_name,
+                    ...calculateGroupStats(handler, championMatches),
+                })
+            );
+
+        const direction = order === "asc" ? 1 : -1;
+        champions.sort(
+            (a, b) => direction * (a[sortBy] - b[sortBy]) || b.games - a.games
+        );
+
+        return champions;
+    } catch (error) {
+        logger.error(
+            `Models > stats > Error fetching champion stats for ${summonerPuuid}`,
+            error
+        );
+        throw error;
+    }
+}
@@ -1,5 +1,11 @@
 import prisma from "../utils/prisma.js";
-import { fetchSummonerPuuidByRiotId, getSummonerRegion } from "./riot.js";
+import { Prisma } from "@prisma/client";
+import {
+    fetchSummonerPuuidByRiotId,
+    fetchRiotIdByPuuid,
+    getSummonerRegion,
+    Region,
+} from "./riot.js";
 import { logger } from "../utils/logger.js";
 
 export async function getNumSummoners(): Promise<number> {
@@ -38,14 +44,37 @@ export async function getSummonersByGuildId(guildId: string) {
     }
 }
 
-export async function updateCachedTimestamp(summoner: {
-    name: string;
-    puuid: string;
-}): Promise<void> {
+export async function getSummonerByPuuid(puuid: string) {
+    try {
+        return await prisma.summoner.findUnique({
+            where: { puuid },
+            select: {
+                name: true,
+                puuid: true,
+                region: true,
+            },
+        });
+    } catch (error) {
+        logger.error(
+            `Models > summoners > Error fetching summoner ${puuid}`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+export async function updateCachedTimestamp(
+    summoner: {
+        name: string;
+        puuid: string;
+    },
+    runId?: string
+): Promise<void> {
     try {
         await prisma.summonerCacheLog.create({
             data: {
                 summoner_puuid: summoner.puuid,
+                run_id: runId ?? null,
             },
         });
         logger.debug(
@@ -88,17 +117,175 @@ export async function checkIfCachedWithinRange(
     }
 }
 
+export async function getSyncState(
+    summonerPuuid: string,
+    queueId: number
+): Promise<{
+    lastGameStartTimestamp: number | null;
+    lastSyncedAt: Date;
+} | null> {
+    try {
+        const syncState = await prisma.summonerSyncState.findUnique({
+            where: {
+                summoner_puuid_queue_id: {
+                    summoner_puuid: summonerPuuid,
+                    queue_id: queueId,
+                },
+            },
+        });
+
+        if (!syncState) {
+            return null;
+        }
+
+        return {
+            lastGameStartTimestamp:
+                syncState.last_game_start_timestamp !== null
+                    ? Number(syncState.last_game_start_timestamp)
+                    : null,
+            lastSyncedAt: syncState.last_synced_at,
+        };
+    } catch (error) {
+        logger.error(
+            `Models > summoners > Error fetching sync state for ${summonerPuuid} (queue ${queueId})`,
+            error
+        );
+        throw new Error("Database query failed");
+    }
+}
+
+export async function updateSyncState(
+    summonerPuuid: string,
+    queueId: number,
+    lastGameStartTimestamp: number | null,
+    syncedAt: Date
+): Promise<void> {
+    try {
+        const lastGameStart =
+            lastGameStartTimestamp !== null
+                ? BigInt(lastGameStartTimestamp)
+                : null;
+
+        await prisma.summonerSyncState.upsert({
+            where: {
+                summoner_puuid_queue_id: {
+                    summoner_puuid: summonerPuuid,
+                    queue_id: queueId,
+                },
+            },
+            update: {
+                last_game_start_timestamp: lastGameStart,
+                last_synced_at: syncedAt,
+            },
+            create: {
+                summoner_puuid: summonerPuuid,
+                queue_id: queueId,
+                last_game_start_timestamp: lastGameStart,
+                last_synced_at: syncedAt,
+            },
+        });
+    } catch (error) {
+        logger.error(
+            `Models > summoners > Error updating sync state for ${summonerPuuid} (queue ${queueId})`,
+            error
+        );
+        throw error;
+    }
+}
+
+/**
+ * Records that a summoner was seen under `name`. Riot IDs are
+ * case-insensitive, so a name differing only in case from one already
+ * recorded updates that entry instead of adding another.
+ */
+async function recordSummonerName(
+    tx: Prisma.TransactionClient,
+    summonerPuuid: string,
+    name: string,
+    seenAt: Date
+): Promise<void> {
+    const existing = await tx.summonerNameHistory.findFirst({
+        where: {
+            summoner_puuid: summonerPuuid,
+            name: { equals: name, mode: "insensitive" },
+        },
+    });
+
+    if (existing) {
+        await tx.summonerNameHistory.update({
+            where: { id: existing.id },
+            data: { last_seen_at: seenAt },
+        });
+        return;
+    }
+
+    await tx.summonerNameHistory.create({
+        data: {
+            summoner_puuid: summonerPuuid,
+            name,
+            first_seen_at: seenAt,
+            last_seen_at: seenAt,
+        },
+    });
+}
+
+/**
+ * Resolves a Riot ID to a tracked summoner, preferring summoners in the given
+ * guild: their current names first, then their past names. Otherwise falls
+ * back to any summoner currently using the name, then the most recent holder
+ * of it as a past name.
+ */
+async function findSummonerByRiotId(riotId: string, guildId: string) {
+    const nameFilter = { equals: riotId, mode: "insensitive" as const };
+    const inGuildFilter = { some: { guild_id: BigInt(guildId) } };
+
+    const currentInGuild = await prisma.summoner.findFirst({
+        where: { name: nameFilter, guilds: inGuildFilter },
+    });
+    if (currentInGuild) {
+        return currentInGuild;
+    }
+
+    const pastNames = await prisma.summonerNameHistory.findMany({
+        where: { name: nameFilter },
+        orderBy: { last_seen_at: "desc" },
+        include: {
+            summoner: {
+                include: {
+                    guilds: { where: { guild_id: BigInt(guildId) } },
+                },
+            },
+        },
+    });
+
+    const pastInGuild = pastNames.find(
+        (entry) => entry.summoner.guilds.length > 0
+    );
+    if (pastInGuild) {
+        return pastInGuild.summoner;
+    }
+
+    const current = await prisma.summoner.findFirst({
+        where: { name: nameFilter },
+    });
+    return current ?? pastNames[0]?.summoner ?? null;
+}
+
 export async function addSummoner(
     summonerRiotId: string,
-    guildId: string
+    guildId: string,
+    regionHint?: Region
 ): Promise<void> {
     try {
-        const puuid = await fetchSummonerPuuidByRiotId(summonerRiotId);
+        const puuid = await fetchSummonerPuuidByRiotId(
+            summonerRiotId,
+            regionHint
+        );
         if (!puuid) {
             throw new Error(`Invalid Riot account: ${summonerRiotId}`);
         }
 
-        const region = await getSummonerRegion(puuid);
+        const region = await getSummonerRegion(puuid, regionHint);
         if (!region) {
             throw new Error(
                 `Failed to determine region for summoner '${summonerRiotId}'`
@@ -119,6 +306,8 @@ export async function addSummoner(
                 },
             });
 
+            await recordSummonerName(tx, puuid, summonerRiotId, new Date());
+
             await tx.guildSummoner.createMany({
                 data: {
                     guild_id: BigInt(guildId),
@@ -141,18 +330,20 @@ export async function addSummoner(
 }
 
 export async function removeSummoner(
-    summonerRiotId: string,
+    identifier: { puuid?: string; riotId?: string },
     guildId: string
 ): Promise<void> {
+    const label = identifier.puuid ?? identifier.riotId;
+
     try {
-        const summoner = await prisma.summoner.findFirst({
-            where: { name: summonerRiotId },
-        });
+        const summoner = identifier.puuid
+            ? await prisma.summoner.findUnique({
+                  where: { puuid: identifier.puuid },
+              })
+            : await findSummonerByRiotId(identifier.riotId ?? "", guildId);
 
         if (!summoner) {
-            throw new Error(
-                `Summoner '${summonerRiotId}' not found in database`
-            );
+            throw new Error(`Summoner '${label}' not found in database`);
         }
 
         const result = await prisma.guildSummoner.deleteMany({
@@ -164,16 +355,74 @@ export async function removeSummoner(
 
         if (result.count === 0) {
             throw new Error(
-                `Summoner '${summonerRiotId}' was not associated with Guild ${guildId}`
+                `Summoner '${summoner.name}' was not associated with Guild ${guildId}`
             );
         }
 
         logger.info(
-            `Models > summoners > Summoner '${summonerRiotId}' removed from Guild ${guildId}`
+            `Models > summoners > Summoner '${summoner.name}' removed from Guild ${guildId}`
+        );
+    } catch (error) {
+        logger.error(
+            `Models > summoners > Error removing summoner '${label}' from Guild '${guildId}'`,
+            error
         );
+        throw error;
+    }
+}
+
+/**
+ * Re-fetches every tracked summoner's Riot ID and records renames.
+ * Returns the number of summoners whose name changed.
+ */
+export async function refreshSummonerNames(): Promise<number> {
+    try {
+        const summoners = await getUniqueSummoners();
+        let renamed = 0;
+
+        for (const summoner of summoners) {
+            const riotId = await fetchRiotIdByPuuid(
+                summoner.puuid,
+                summoner.region
+            );
+            if (!riotId || riotId === summoner.name) {
+                continue;
+            }
+
+            // A change in case only isn't a rename
+            if (riotId.toLowerCase() === summoner.name.toLowerCase()) {
+                await prisma.summoner.update({
+                    where: { puuid: summoner.puuid },
+                    data: { name: riotId },
+                });
+                continue;
+            }
+
+            const seenAt = new Date();
+            await prisma.$transaction(async (tx) => {
+                await recordSummonerName(
+                    tx,
+                    summoner.puuid,
+                    summoner.name,
+                    seenAt
+                );
+                await recordSummonerName(tx, summoner.puuid, riotId, seenAt);
+                await tx.summoner.update({
+                    where: { puuid: summoner.puuid },
+                    data: { name: riotId },
+                });
+            });
+
+            renamed++;
+            logger.info(
+                `Models > summoners > Summoner '${summoner.name}' is now '${riotId}'`
+            );
+        }
+
+        return renamed;
     } catch (error) {
         logger.error(
-            `Models > summoners > Error removing summoner '${summonerRiotId}' from Guild '${guildId}'`,
+            "Models > summoners > Error refreshing summoner names",
             error
         );
         throw error;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "raw_matches" (
+    "match_id" TEXT NOT NULL,
+    "queue_id" INTEGER NOT NULL,
+    "game_start_timestamp" BIGINT NOT NULL,
+    "data" JSONB NOT NULL,
+    "fetched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "raw_matches_pkey" PRIMARY KEY ("match_id")
+);
+
+-- CreateIndex
+CREATE INDEX "raw_matches_game_start_timestamp_idx" ON "raw_matches"("game_start_timestamp");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ranked_solo_matches_puuid_queue_start_idx" ON "ranked_solo_matches"("summoner_puuid", "queue_id", "game_start_timestamp");
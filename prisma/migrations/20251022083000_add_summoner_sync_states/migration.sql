@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "summoner_sync_states" (
+    "summoner_puuid" TEXT NOT NULL,
+    "queue_id" INTEGER NOT NULL,
+    "last_game_start_timestamp" BIGINT,
+    "last_synced_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summoner_sync_states_pkey" PRIMARY KEY ("summoner_puuid","queue_id")
+);
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "summoner_cache_logs" ADD COLUMN "run_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "cache_runs" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "summoners_total" INTEGER NOT NULL,
+    "summoners_processed" INTEGER NOT NULL DEFAULT 0,
+    "matches_saved" JSONB NOT NULL,
+    "truncated_windows" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "cache_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cache_run_errors" (
+    "id" TEXT NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "summoner_puuid" TEXT NOT NULL,
+    "queue_id" INTEGER NOT NULL,
+    "match_id" TEXT,
+    "status_code" INTEGER,
+    "message" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cache_run_errors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "summoner_cache_logs_run_id_idx" ON "summoner_cache_logs"("run_id");
+
+-- CreateIndex
+CREATE INDEX "cache_runs_started_at_idx" ON "cache_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "cache_run_errors_run_id_idx" ON "cache_run_errors"("run_id");
+
+-- CreateIndex
+CREATE INDEX "cache_run_errors_summoner_puuid_idx" ON "cache_run_errors"("summoner_puuid");
+
+-- AddForeignKey
+ALTER TABLE "summoner_cache_logs" ADD CONSTRAINT "summoner_cache_logs_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "cache_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cache_run_errors" ADD CONSTRAINT "cache_run_errors_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "cache_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
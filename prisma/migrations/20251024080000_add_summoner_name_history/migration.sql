@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "summoner_name_history" (
+    "id" TEXT NOT NULL,
+    "summoner_puuid" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "summoner_name_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "summoner_name_history_summoner_puuid_name_key" ON "summoner_name_history"("summoner_puuid", "name");
+
+-- CreateIndex
+CREATE INDEX "summoner_name_history_name_idx" ON "summoner_name_history"("name");
+
+-- AddForeignKey
+ALTER TABLE "summoner_name_history" ADD CONSTRAINT "summoner_name_history_summoner_puuid_fkey" FOREIGN KEY ("summoner_puuid") REFERENCES "summoners"("puuid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the current name of every tracked summoner
+INSERT INTO "summoner_name_history" ("id", "summoner_puuid", "name", "first_seen_at", "last_seen_at")
+SELECT gen_random_uuid()::text, "puuid", "name", "created_at", CURRENT_TIMESTAMP
+FROM "summoners";
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "rank_snapshots" (
+    "id" TEXT NOT NULL,
+    "summoner_puuid" TEXT NOT NULL,
+    "queue_id" INTEGER NOT NULL,
+    "tier" TEXT NOT NULL,
+    "division" TEXT NOT NULL,
+    "league_points" INTEGER NOT NULL,
+    "wins" INTEGER NOT NULL,
+    "losses" INTEGER NOT NULL,
+    "captured_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rank_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rank_snapshots_summoner_puuid_queue_id_captured_at_idx" ON "rank_snapshots"("summoner_puuid", "queue_id", "captured_at");
+
+-- AddForeignKey
+ALTER TABLE "rank_snapshots" ADD CONSTRAINT "rank_snapshots_summoner_puuid_fkey" FOREIGN KEY ("summoner_puuid") REFERENCES "summoners"("puuid") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ranked_solo_matches" ADD COLUMN "lp_change" INTEGER;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "rank_events" (
+    "id" TEXT NOT NULL,
+    "summoner_puuid" TEXT NOT NULL,
+    "queue_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "from_tier" TEXT NOT NULL,
+    "from_division" TEXT NOT NULL,
+    "to_tier" TEXT NOT NULL,
+    "to_division" TEXT NOT NULL,
+    "league_points" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rank_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rank_events_summoner_puuid_created_at_idx" ON "rank_events"("summoner_puuid", "created_at");
+
+-- CreateIndex
+CREATE INDEX "rank_events_created_at_idx" ON "rank_events"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "rank_events" ADD CONSTRAINT "rank_events_summoner_puuid_fkey" FOREIGN KEY ("summoner_puuid") REFERENCES "summoners"("puuid") ON DELETE CASCADE ON UPDATE CASCADE;
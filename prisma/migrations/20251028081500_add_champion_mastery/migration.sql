@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "champion_masteries" (
+    "summoner_puuid" TEXT NOT NULL,
+    "champion_id" INTEGER NOT NULL,
+    "champion_level" INTEGER NOT NULL,
+    "champion_points" INTEGER NOT NULL,
+    "last_play_time" BIGINT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "champion_masteries_pkey" PRIMARY KEY ("summoner_puuid","champion_id")
+);
+
+-- CreateTable
+CREATE TABLE "champion_mastery_snapshots" (
+    "id" TEXT NOT NULL,
+    "summoner_puuid" TEXT NOT NULL,
+    "champion_id" INTEGER NOT NULL,
+    "champion_level" INTEGER NOT NULL,
+    "champion_points" INTEGER NOT NULL,
+    "captured_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "champion_mastery_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "champion_masteries_champion_points_idx" ON "champion_masteries"("champion_points");
+
+-- CreateIndex
+CREATE INDEX "champion_mastery_snapshots_summoner_puuid_captured_at_idx" ON "champion_mastery_snapshots"("summoner_puuid", "captured_at");
+
+-- CreateIndex
+CREATE INDEX "champion_mastery_snapshots_puuid_champion_captured_idx" ON "champion_mastery_snapshots"("summoner_puuid", "champion_id", "captured_at");
+
+-- AddForeignKey
+ALTER TABLE "champion_masteries" ADD CONSTRAINT "champion_masteries_summoner_puuid_fkey" FOREIGN KEY ("summoner_puuid") REFERENCES "summoners"("puuid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "champion_mastery_snapshots" ADD CONSTRAINT "champion_mastery_snapshots_summoner_puuid_fkey" FOREIGN KEY ("summoner_puuid") REFERENCES "summoners"("puuid") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "ranked_solo_matches" ADD COLUMN "patch" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "arena_matches" ADD COLUMN "patch" TEXT NOT NULL DEFAULT '';
+
+-- Backfill the patch (major.minor) from the stored game version
+UPDATE "ranked_solo_matches" SET "patch" = split_part("game_version", '.', 1) || '.' || split_part("game_version", '.', 2);
+UPDATE "arena_matches" SET "patch" = split_part("game_version", '.', 1) || '.' || split_part("game_version", '.', 2);
+
+-- AlterTable
+ALTER TABLE "ranked_solo_matches" ALTER COLUMN "patch" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "arena_matches" ALTER COLUMN "patch" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "ranked_solo_matches_patch_idx" ON "ranked_solo_matches"("patch");
+
+-- CreateIndex
+CREATE INDEX "arena_matches_patch_idx" ON "arena_matches"("patch");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "match_participants" (
+    "match_id" TEXT NOT NULL,
+    "participant_id" INTEGER NOT NULL,
+    "puuid" TEXT NOT NULL,
+    "riot_id_game_name" TEXT,
+    "riot_id_tagline" TEXT,
+    "queue_id" INTEGER NOT NULL,
+    "game_start_timestamp" BIGINT NOT NULL,
+    "champion_id" INTEGER NOT NULL,
+    "champion_name" TEXT NOT NULL,
+    "team_id" INTEGER NOT NULL,
+    "team_position" TEXT,
+    "win" BOOLEAN NOT NULL,
+    "kills" INTEGER NOT NULL,
+    "deaths" INTEGER NOT NULL,
+    "assists" INTEGER NOT NULL,
+    "damage_to_champions" INTEGER NOT NULL,
+    "gold_earned" INTEGER NOT NULL,
+    "cs" INTEGER NOT NULL,
+    "vision_score" INTEGER NOT NULL,
+    "item_0" INTEGER NOT NULL,
+    "item_1" INTEGER NOT NULL,
+    "item_2" INTEGER NOT NULL,
+    "item_3" INTEGER NOT NULL,
+    "item_4" INTEGER NOT NULL,
+    "item_5" INTEGER NOT NULL,
+    "item_6" INTEGER NOT NULL,
+
+    CONSTRAINT "match_participants_pkey" PRIMARY KEY ("match_id","participant_id")
+);
+
+-- CreateIndex
+CREATE INDEX "match_participants_puuid_game_start_timestamp_idx" ON "match_participants"("puuid", "game_start_timestamp");
+
+-- AddForeignKey
+ALTER TABLE "match_participants" ADD CONSTRAINT "match_participants_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "raw_matches"("match_id") ON DELETE CASCADE ON UPDATE CASCADE;
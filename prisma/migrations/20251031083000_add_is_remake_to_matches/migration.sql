@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "ranked_solo_matches" ADD COLUMN "is_remake" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "arena_matches" ADD COLUMN "is_remake" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill remakes: games under 4 minutes, games that didn't complete and
+-- early surrenders recorded in the raw match data
+UPDATE "ranked_solo_matches" m SET "is_remake" = true
+WHERE m."game_duration" < 240
+   OR m."end_of_game_result" <> 'GameComplete'
+   OR EXISTS (
+       SELECT 1
+       FROM "raw_matches" r, jsonb_array_elements(r."data"->'info'->'participants') p
+       WHERE r."match_id" = m."match_id"
+         AND (p->>'gameEndedInEarlySurrender')::boolean
+   );
+
+UPDATE "arena_matches" m SET "is_remake" = true
+WHERE m."game_duration" < 240
+   OR m."end_of_game_result" <> 'GameComplete'
+   OR EXISTS (
+       SELECT 1
+       FROM "raw_matches" r, jsonb_array_elements(r."data"->'info'->'participants') p
+       WHERE r."match_id" = m."match_id"
+         AND (p->>'gameEndedInEarlySurrender')::boolean
+   );
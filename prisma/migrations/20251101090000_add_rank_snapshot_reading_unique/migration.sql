@@ -0,0 +1,14 @@
+-- Drop readings stored twice by overlapping passes, keeping the earliest
+DELETE FROM "rank_snapshots" a
+USING "rank_snapshots" b
+WHERE a."summoner_puuid" = b."summoner_puuid"
+  AND a."queue_id" = b."queue_id"
+  AND a."tier" = b."tier"
+  AND a."division" = b."division"
+  AND a."league_points" = b."league_points"
+  AND a."wins" = b."wins"
+  AND a."losses" = b."losses"
+  AND (a."captured_at", a."id") > (b."captured_at", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rank_snapshots_reading_key" ON "rank_snapshots"("summoner_puuid", "queue_id", "tier", "division", "league_points", "wins", "losses");
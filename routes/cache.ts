@@ -0,0 +1,53 @@
+import { Router, Request, Response } from "express";
+import { getCacheRuns, getCacheRunById } from "../models/cacheRuns.js";
+import { respondWithSuccess, respondWithError } from "../utils/responses.js";
+import { logger } from "../utils/logger.js";
+
+const router = Router();
+
+const MAX_RUNS = 100;
+
+router.get("/runs", async (req: Request, res: Response) => {
+    try {
+        const limit = Math.min(
+            parseInt(req.query.limit as string, 10) || 20,
+            MAX_RUNS
+        );
+        const trigger = req.query.trigger as string | undefined;
+
+        const runs = await getCacheRuns(limit, trigger);
+        return respondWithSuccess(res, 200, undefined, runs);
+    } catch (error) {
+        logger.error("Routes > cache > Error with GET /runs", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch cache runs. Please try again later."
+        );
+    }
+});
+
+router.get("/runs/:id", async (req: Request, res: Response) => {
+    try {
+        const run = await getCacheRunById(req.params.id);
+
+        if (!run) {
+            return respondWithError(
+                res,
+                404,
+                `Cache run '${req.params.id}' not found`
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, run);
+    } catch (error) {
+        logger.error("Routes > cache > Error with GET /runs/:id", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch cache run. Please try again later."
+        );
+    }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+import { Router, Request, Response } from "express";
+import { getRankEventsByGuildId } from "../models/ranks.js";
+import { respondWithSuccess, respondWithError } from "../utils/responses.js";
+import { decodeRankEventCursor } from "../utils/filters.js";
+import { logger } from "../utils/logger.js";
+
+const router = Router();
+
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+// Accepts an ISO date or epoch milliseconds
+function parseSince(since: string | undefined): Date | null {
+    if (!since) {
+        return new Date(Date.now() - DEFAULT_LOOKBACK_MS);
+    }
+
+    const date = /^\d+$/.test(since)
+        ? new Date(Number(since))
+        : new Date(since);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+router.get("/", async (req: Request, res: Response) => {
+    try {
+        const guildId = req.query.guildId as string | undefined;
+
+        if (!guildId) {
+            return respondWithError(
+                res,
+                400,
+                "Missing required query parameter: guildId"
+            );
+        }
+
+        if (!/^\d+$/.test(guildId)) {
+            return respondWithError(
+                res,
+                400,
+                "Invalid guildId. It must be a numeric Discord guild ID"
+            );
+        }
+
+        const since = parseSince(req.query.since as string | undefined);
+        if (!since) {
+            return respondWithError(
+                res,
+                400,
+                "Invalid since. Use an ISO date or epoch milliseconds"
+            );
+        }
+
+        // A cursor from a previous page takes over from since
+        const cursorParam = req.query.cursor as string | undefined;
+        const cursor = cursorParam
+            ? decodeRankEventCursor(cursorParam)
+            : undefined;
+        if (cursor === null) {
+            return respondWithError(res, 400, "Invalid cursor");
+        }
+
+        const page = await getRankEventsByGuildId(
+            guildId,
+            since,
+            cursor,
+            PAGE_SIZE
+        );
+        return respondWithSuccess(
+            res,
+            200,
+            undefined,
+            {
+                guildId,
+                since,
+                events: page.events,
+            },
+            {
+                limit: PAGE_SIZE,
+                count: page.events.length,
+                hasMore: page.nextCursor !== null,
+                nextCursor: page.nextCursor,
+            }
+        );
+    } catch (error) {
+        logger.error("Routes > events > Error with GET /", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch events. Please try again later."
+        );
+    }
+});
+
+export default router;
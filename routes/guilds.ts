@@ -8,6 +8,7 @@ import {
     getMainChannel,
     getGuildById,
 } from "../models/guilds.js";
+import { getLiveGamesByGuildId } from "../models/live.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
 
@@ -117,4 +118,25 @@ router.get("/filter", async (req: Request, res: Response) => {
     }
 });
 
+router.get("/:guildId/live", async (req: Request, res: Response) => {
+    try {
+        const { guildId } = req.params;
+
+        const guildData = await getGuildById(guildId);
+        if (!guildData) {
+            return respondWithError(res, 404, `Guild with ID '${guildId}' not found`);
+        }
+
+        const liveGames = await getLiveGamesByGuildId(guildId);
+        return respondWithSuccess(res, 200, undefined, {
+            guildId,
+            count: liveGames.length,
+            summoners: liveGames,
+        });
+    } catch (error) {
+        logger.error("Routes > guilds > Error with GET /:guildId/live", error);
+        return respondWithError(res, 500, "Failed to fetch live games. Please try again later.");
+    }
+});
+
 export default router;
@@ -1,5 +1,10 @@
 import { Router, Request, Response } from "express";
 import { getSummonerPlaytime } from "../models/hours.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
+import { parseMatchFilter } from "../utils/filters.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
 
@@ -8,21 +13,38 @@ const router = Router();
 router.get("/:summonerPuuid", async (req: Request, res: Response) => {
     try {
         const { summonerPuuid } = req.params;
-        const { queueType = "ranked_solo", range } = req.query;
+        const { range } = req.query;
+        const queueType = (req.query.queueType as string) || "ranked_solo";
 
         if (!range) {
             return respondWithError(res, 400, "Missing required 'range' query parameter");
         }
 
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
         const result = await getSummonerPlaytime(
             summonerPuuid,
             Number(range),
-            queueType as string
+            queueType,
+            filter
         );
 
         return respondWithSuccess(res, 200, undefined, {
             summonerPuuid,
             queueType,
+            ...filter,
             ...result,
         });
     } catch (error) {
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from "express";
+import { getRefreshJob } from "../models/refreshJobs.js";
+import { respondWithSuccess, respondWithError } from "../utils/responses.js";
+import { logger } from "../utils/logger.js";
+
+const router = Router();
+
+router.get("/:id", async (req: Request, res: Response) => {
+    try {
+        const job = getRefreshJob(req.params.id);
+
+        if (!job) {
+            return respondWithError(
+                res,
+                404,
+                `Job '${req.params.id}' not found or expired`
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, job);
+    } catch (error) {
+        logger.error("Routes > jobs > Error with GET /:id", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch job status. Please try again later."
+        );
+    }
+});
+
+export default router;
@@ -1,26 +1,108 @@
 import { Router, Request, Response } from "express";
 import {
-    fetchAllSummonerMatchDataByRange,
+    fetchSummonerMatchPageByRange,
     fetchAllSummonerMatchDataSinceDate,
+    fetchMatchById,
 } from "../models/matches.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
+import {
+    parseMatchFilter,
+    parseMatchListOptions,
+} from "../utils/filters.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
 
 const router = Router();
 
+// Registered first so "/id/..." never reaches the summoner routes
+router.get("/id/:matchId", async (req: Request, res: Response) => {
+    try {
+        const { matchId } = req.params;
+        const guildId = req.query.guildId as string | undefined;
+
+        if (guildId && !/^\d+$/.test(guildId)) {
+            return respondWithError(
+                res,
+                400,
+                "Invalid guildId. It must be a numeric Discord guild ID"
+            );
+        }
+
+        const result = await fetchMatchById(matchId, guildId);
+        if (!result) {
+            return respondWithError(
+                res,
+                404,
+                guildId
+                    ? `No tracked summoners from Guild ${guildId} found in match '${matchId}'`
+                    : `No tracked summoners found in match '${matchId}'`
+            );
+        }
+
+        const wins = result.participants.filter((p) => p.win).length;
+        return respondWithSuccess(res, 200, undefined, {
+            guildId: guildId ?? null,
+            ...result.match,
+            trackedCount: result.participants.length,
+            wins,
+            losses: result.participants.length - wins,
+            participants: result.participants,
+        });
+    } catch (error) {
+        logger.error("Routes > matches > Error with GET /id/:matchId", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch match. Please try again later."
+        );
+    }
+});
+
 router.get("/:summonerPuuid", async (req: Request, res: Response) => {
     try {
         const summonerPuuid = req.params.summonerPuuid;
         const range = parseInt(req.query.range as string, 10) || 7;
         const queueType = (req.query.queueType as string) || "ranked_solo";
+        const enrich = req.query.enrich === "true";
+
+        const handler = getQueueHandler(queueType);
+        if (!handler) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
+        const optionsResult = parseMatchListOptions(
+            req.query,
+            handler.storage.fields
+        );
+        if ("error" in optionsResult) {
+            return respondWithError(res, 400, optionsResult.error);
+        }
+        const { options } = optionsResult;
 
-        const matches = await fetchAllSummonerMatchDataByRange(
+        const page = await fetchSummonerMatchPageByRange(
             summonerPuuid,
             range,
-            queueType
+            queueType,
+            filter,
+            options,
+            enrich
         );
 
-        if (!matches) {
+        // An empty later page just means the previous one was the last
+        if (!page || (page.matches.length === 0 && !options.cursor)) {
             return respondWithError(
                 res,
                 404,
@@ -28,12 +110,29 @@ router.get("/:summonerPuuid", async (req: Request, res: Response) => {
             );
         }
 
-        return respondWithSuccess(res, 200, undefined, {
-            range,
-            queueType,
-            summonerPuuid,
-            matches,
-        });
+        return respondWithSuccess(
+            res,
+            200,
+            undefined,
+            {
+                range,
+                queueType,
+                ...filter,
+                champion: options.champion ?? null,
+                result: options.result ?? null,
+                minDuration: options.minDuration ?? null,
+                sortBy: options.sortBy,
+                order: options.order,
+                summonerPuuid,
+                matches: page.matches,
+            },
+            {
+                limit: options.limit,
+                count: page.matches.length,
+                hasMore: page.nextCursor !== null,
+                nextCursor: page.nextCursor,
+            }
+        );
     } catch (error) {
         logger.error(
             "Routes > matches > Error with GET /:summonerPuuid",
@@ -53,6 +152,14 @@ router.get("/:summonerPuuid/since", async (req: Request, res: Response) => {
         const { startDate } = req.query;
         const queueType = (req.query.queueType as string) || "ranked_solo";
 
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
         if (!startDate) {
             return respondWithError(
                 res,
@@ -70,10 +177,17 @@ router.get("/:summonerPuuid/since", async (req: Request, res: Response) => {
             );
         }
 
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
         const matches = await fetchAllSummonerMatchDataSinceDate(
             summonerPuuid,
             parsedDate,
-            queueType
+            queueType,
+            filter
         );
 
         if (!matches) {
@@ -87,6 +201,7 @@ router.get("/:summonerPuuid/since", async (req: Request, res: Response) => {
         return respondWithSuccess(res, 200, undefined, {
             startDate: parsedDate.toISOString(),
             queueType,
+            ...filter,
             summonerPuuid,
             matches,
         });
@@ -0,0 +1,39 @@
+import { Router, Request, Response } from "express";
+import { getPatches } from "../models/patches.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
+import { respondWithSuccess, respondWithError } from "../utils/responses.js";
+import { logger } from "../utils/logger.js";
+
+const router = Router();
+
+router.get("/", async (req: Request, res: Response) => {
+    try {
+        const queueType = req.query.queueType as string | undefined;
+
+        if (queueType && !getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const patches = await getPatches(queueType);
+        return respondWithSuccess(res, 200, undefined, {
+            queueType: queueType ?? null,
+            patches,
+        });
+    } catch (error) {
+        logger.error("Routes > patches > Error with GET /", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch patches. Please try again later."
+        );
+    }
+});
+
+export default router;
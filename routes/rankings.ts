@@ -1,6 +1,11 @@
 import { Router, Request, Response } from "express";
-import { fetchRankings } from "../models/rankings.js";
+import { fetchRankings, fetchMasteryRankings } from "../models/rankings.js";
 import { makePretty } from "../models/stats.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
+import { parseMatchFilter, parseStatsDetail } from "../utils/filters.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
 
@@ -11,6 +16,10 @@ interface RankingsQuery {
     startDate?: string;
     limit?: string;
     queueType?: string;
+    patch?: string;
+    sincePatch?: string;
+    includeRemakes?: string;
+    detail?: string;
 }
 
 function validateAndParseParams(query: RankingsQuery) {
@@ -30,11 +39,29 @@ function validateAndParseParams(query: RankingsQuery) {
         return { error: "Invalid limit. It must be a positive integer" };
     }
 
+    if (!getQueueHandler(queueType)) {
+        return {
+            error: `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`,
+        };
+    }
+
+    const filterResult = parseMatchFilter(query);
+    if ("error" in filterResult) {
+        return { error: filterResult.error };
+    }
+
+    const detail = parseStatsDetail(query.detail);
+    if (!detail) {
+        return { error: "Invalid detail. Use summary or full" };
+    }
+
     return {
         guildId,
         parsedDate,
         parsedLimit,
         queueType,
+        filter: filterResult.filter,
+        detail,
     };
 }
 
@@ -46,11 +73,11 @@ router.get("/", async (req: Request, res: Response) => {
             return respondWithError(res, 400, validation.error!);
         }
 
-        const { guildId, parsedDate, parsedLimit, queueType } = validation;
+        const { guildId, parsedDate, parsedLimit, queueType, filter, detail } = validation;
 
-        const rankings = await fetchRankings(guildId, parsedDate, parsedLimit, queueType);
+        const result = await fetchRankings(guildId, parsedDate, parsedLimit, queueType, filter, detail);
 
-        if (!rankings) {
+        if (!result) {
             return respondWithError(
                 res,
                 404,
@@ -63,7 +90,8 @@ router.get("/", async (req: Request, res: Response) => {
             startDate: parsedDate.toISOString(),
             limit: parsedLimit,
             queueType,
-            rankings,
+            ...filter,
+            ...result,
         });
     } catch (error) {
         logger.error("Routes > rankings > Error with GET /", error);
@@ -79,11 +107,11 @@ router.get("/pretty", async (req: Request, res: Response) => {
             return respondWithError(res, 400, validation.error!);
         }
 
-        const { guildId, parsedDate, parsedLimit, queueType } = validation;
+        const { guildId, parsedDate, parsedLimit, queueType, filter, detail } = validation;
 
-        const rankings = await fetchRankings(guildId, parsedDate, parsedLimit, queueType);
+        const result = await fetchRankings(guildId, parsedDate, parsedLimit, queueType, filter, detail);
 
-        if (!rankings) {
+        if (!result) {
             return respondWithError(
                 res,
                 404,
@@ -91,13 +119,15 @@ router.get("/pretty", async (req: Request, res: Response) => {
             );
         }
 
-        const prettyRankings = makePretty(rankings);
+        const prettyRankings = makePretty(result.rankings, queueType);
 
         return respondWithSuccess(res, 200, undefined, {
             guildId,
             startDate: parsedDate.toISOString(),
             limit: parsedLimit,
             queueType,
+            ...filter,
+            ...result,
             rankings: prettyRankings,
         });
     } catch (error) {
@@ -106,4 +136,36 @@ router.get("/pretty", async (req: Request, res: Response) => {
     }
 });
 
+router.get("/mastery", async (req: Request, res: Response) => {
+    try {
+        const validation = validateAndParseParams(req.query);
+
+        if ("error" in validation) {
+            return respondWithError(res, 400, validation.error!);
+        }
+
+        const { guildId, parsedDate, parsedLimit } = validation;
+
+        const rankings = await fetchMasteryRankings(guildId, parsedDate, parsedLimit);
+
+        if (!rankings) {
+            return respondWithError(
+                res,
+                404,
+                "Failed to fetch mastery rankings. Please ensure the guildId is correct"
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            guildId,
+            startDate: parsedDate.toISOString(),
+            limit: parsedLimit,
+            rankings,
+        });
+    } catch (error) {
+        logger.error("Routes > rankings > Error with GET /mastery", error);
+        return respondWithError(res, 500, "Failed to fetch mastery rankings. Please try again later.");
+    }
+});
+
 export default router;
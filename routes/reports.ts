@@ -1,6 +1,11 @@
 import { Router, Request, Response } from "express";
 import { fetchReportByDayRange } from "../models/reports.js";
 import { makePretty } from "../models/stats.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
+import { parseMatchFilter, parseStatsDetail } from "../utils/filters.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
 
@@ -10,6 +15,10 @@ interface ReportQuery {
     guildId?: string;
     range?: string;
     queueType?: string;
+    patch?: string;
+    sincePatch?: string;
+    includeRemakes?: string;
+    detail?: string;
 }
 
 function validateAndParseParams(query: ReportQuery) {
@@ -24,10 +33,28 @@ function validateAndParseParams(query: ReportQuery) {
         return { error: "Invalid range. It must be a positive integer" };
     }
 
+    if (!getQueueHandler(queueType)) {
+        return {
+            error: `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`,
+        };
+    }
+
+    const filterResult = parseMatchFilter(query);
+    if ("error" in filterResult) {
+        return { error: filterResult.error };
+    }
+
+    const detail = parseStatsDetail(query.detail);
+    if (!detail) {
+        return { error: "Invalid detail. Use summary or full" };
+    }
+
     return {
         guildId,
         parsedRange,
         queueType,
+        filter: filterResult.filter,
+        detail,
     };
 }
 
@@ -39,11 +66,11 @@ router.get("/", async (req: Request, res: Response) => {
             return respondWithError(res, 400, validation.error!);
         }
 
-        const { guildId, parsedRange, queueType } = validation;
+        const { guildId, parsedRange, queueType, filter, detail } = validation;
 
-        const report = await fetchReportByDayRange(guildId, parsedRange, queueType);
+        const result = await fetchReportByDayRange(guildId, parsedRange, queueType, filter, detail);
 
-        if (!report) {
+        if (!result) {
             return respondWithError(
                 res,
                 404,
@@ -55,7 +82,8 @@ router.get("/", async (req: Request, res: Response) => {
             guildId,
             range: parsedRange,
             queueType,
-            report,
+            ...filter,
+            ...result,
         });
     } catch (error) {
         logger.error("Routes > reports > Error with GET /", error);
@@ -71,11 +99,11 @@ router.get("/pretty", async (req: Request, res: Response) => {
             return respondWithError(res, 400, validation.error!);
         }
 
-        const { guildId, parsedRange, queueType } = validation;
+        const { guildId, parsedRange, queueType, filter, detail } = validation;
 
-        const report = await fetchReportByDayRange(guildId, parsedRange, queueType);
+        const result = await fetchReportByDayRange(guildId, parsedRange, queueType, filter, detail);
 
-        if (!report) {
+        if (!result) {
             return respondWithError(
                 res,
                 404,
@@ -83,12 +111,14 @@ router.get("/pretty", async (req: Request, res: Response) => {
             );
         }
 
-        const prettyReport = makePretty(report);
+        const prettyReport = makePretty(result.report, queueType);
 
         return respondWithSuccess(res, 200, undefined, {
             guildId,
             range: parsedRange,
             queueType,
+            ...filter,
+            ...result,
             report: prettyReport,
         });
     } catch (error) {
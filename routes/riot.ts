@@ -2,6 +2,8 @@ import { Router, Request, Response } from "express";
 import {
     fetchSummonerPuuidByRiotId,
     getSummonerRegion,
+    isRegion,
+    regions,
 } from "../models/riot.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
@@ -11,12 +13,13 @@ const router = Router();
 router.get("/puuid", async (req: Request, res: Response) => {
     try {
         const riotId = req.query.riotId as string | undefined;
+        const region = req.query.region as string | undefined;
 
         if (!riotId) {
             return respondWithError(res, 400, "Missing required query parameter: riotId");
         }
 
-        const puuid = await fetchSummonerPuuidByRiotId(riotId);
+        const puuid = await fetchSummonerPuuidByRiotId(riotId, region);
 
         if (puuid) {
             return respondWithSuccess(res, 200, undefined, { riotId, puuid });
@@ -32,12 +35,17 @@ router.get("/puuid", async (req: Request, res: Response) => {
 router.get("/region", async (req: Request, res: Response) => {
     try {
         const puuid = req.query.puuid as string | undefined;
+        const regionHint = req.query.region as string | undefined;
 
         if (!puuid) {
             return respondWithError(res, 400, "Missing required query parameter: puuid");
         }
 
-        const region = await getSummonerRegion(puuid);
+        if (regionHint !== undefined && !isRegion(regionHint)) {
+            return respondWithError(res, 400, `Invalid region. Supported regions: ${regions.join(", ")}`);
+        }
+
+        const region = await getSummonerRegion(puuid, regionHint);
 
         if (region) {
             return respondWithSuccess(res, 200, undefined, { puuid, region });
@@ -0,0 +1,91 @@
+import { Router, Request, Response } from "express";
+import {
+    getStaticDataVersion,
+    getChampions,
+    getItems,
+    getAugments,
+} from "../models/staticData.js";
+import { respondWithSuccess, respondWithError } from "../utils/responses.js";
+import { logger } from "../utils/logger.js";
+
+const router = Router();
+
+router.get("/champions", async (_req: Request, res: Response) => {
+    try {
+        const champions = getChampions();
+
+        if (!champions) {
+            return respondWithError(
+                res,
+                503,
+                "Static data is not available yet. Please try again later."
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            version: getStaticDataVersion(),
+            champions,
+        });
+    } catch (error) {
+        logger.error("Routes > static > Error with GET /champions", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch champions. Please try again later."
+        );
+    }
+});
+
+router.get("/items", async (_req: Request, res: Response) => {
+    try {
+        const items = getItems();
+
+        if (!items) {
+            return respondWithError(
+                res,
+                503,
+                "Static data is not available yet. Please try again later."
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            version: getStaticDataVersion(),
+            items,
+        });
+    } catch (error) {
+        logger.error("Routes > static > Error with GET /items", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch items. Please try again later."
+        );
+    }
+});
+
+router.get("/augments", async (_req: Request, res: Response) => {
+    try {
+        const augments = getAugments();
+
+        if (!augments) {
+            return respondWithError(
+                res,
+                503,
+                "Static data is not available yet. Please try again later."
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            version: getStaticDataVersion(),
+            augments,
+        });
+    } catch (error) {
+        logger.error("Routes > static > Error with GET /augments", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch augments. Please try again later."
+        );
+    }
+});
+
+export default router;
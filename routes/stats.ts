@@ -1,6 +1,21 @@
 import { Router, Request, Response } from "express";
-import { fetchSummonerStats, makePretty } from "../models/stats.js";
+import {
+    fetchSummonerStats,
+    compareSummonerStatsByPatch,
+    fetchSummonerChampionStats,
+    fetchSummonerStreaks,
+    fetchSummonerTimeseries,
+    fetchGuildTimeseries,
+    getStatKeys,
+    makePretty,
+} from "../models/stats.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
+import { parseMatchFilter, parseStatsDetail } from "../utils/filters.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
+import { MatchFilter } from "../types/matches.js";
 import { logger } from "../utils/logger.js";
 
 const router = Router();
@@ -11,7 +26,26 @@ router.get("/:summonerPuuid", async (req: Request, res: Response) => {
         const range = parseInt(req.query.range as string, 10) || 7;
         const queueType = (req.query.queueType as string) || "ranked_solo";
 
-        const stats = await fetchSummonerStats(summonerPuuid, range, queueType);
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
+        const detail = parseStatsDetail(req.query.detail);
+        if (!detail) {
+            return respondWithError(res, 400, "Invalid detail. Use summary or full");
+        }
+
+        const stats = await fetchSummonerStats(summonerPuuid, range, queueType, filter, detail);
 
         if (!stats) {
             return respondWithError(
@@ -24,6 +58,7 @@ router.get("/:summonerPuuid", async (req: Request, res: Response) => {
         return respondWithSuccess(res, 200, undefined, {
             range,
             queueType,
+            ...filter,
             summonerPuuid,
             stats,
         });
@@ -39,7 +74,26 @@ router.get("/pretty/:summonerPuuid", async (req: Request, res: Response) => {
         const range = parseInt(req.query.range as string, 10) || 7;
         const queueType = (req.query.queueType as string) || "ranked_solo";
 
-        const stats = await fetchSummonerStats(summonerPuuid, range, queueType);
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
+        const detail = parseStatsDetail(req.query.detail);
+        if (!detail) {
+            return respondWithError(res, 400, "Invalid detail. Use summary or full");
+        }
+
+        const stats = await fetchSummonerStats(summonerPuuid, range, queueType, filter, detail);
 
         if (!stats) {
             return respondWithError(
@@ -49,11 +103,12 @@ router.get("/pretty/:summonerPuuid", async (req: Request, res: Response) => {
             );
         }
 
-        const prettyStats = makePretty(stats);
+        const prettyStats = makePretty(stats, queueType);
 
         return respondWithSuccess(res, 200, undefined, {
             range,
             queueType,
+            ...filter,
             summonerPuuid,
             stats: prettyStats,
         });
@@ -63,4 +118,283 @@ router.get("/pretty/:summonerPuuid", async (req: Request, res: Response) => {
     }
 });
 
+interface TimeseriesQuery {
+    range?: string;
+    queueType?: string;
+    bucket?: string;
+    metric?: string;
+    patch?: string;
+    sincePatch?: string;
+    includeRemakes?: string;
+}
+
+interface TimeseriesParams {
+    parsedRange: number;
+    queueType: string;
+    bucket: "day" | "week";
+    metric: string;
+    filter: MatchFilter;
+}
+
+// Matches are only kept for 31 days
+const MAX_TIMESERIES_RANGE = 31;
+
+function validateTimeseriesParams(query: TimeseriesQuery): TimeseriesParams | { error: string } {
+    const { range = "30", queueType = "ranked_solo", bucket = "day", metric = "games" } = query;
+
+    const parsedRange = parseInt(range, 10);
+    if (isNaN(parsedRange) || parsedRange <= 0 || parsedRange > MAX_TIMESERIES_RANGE) {
+        return { error: `Invalid range. It must be an integer between 1 and ${MAX_TIMESERIES_RANGE}` };
+    }
+
+    if (!getQueueHandler(queueType)) {
+        return {
+            error: `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`,
+        };
+    }
+
+    if (bucket !== "day" && bucket !== "week") {
+        return { error: "Invalid bucket. Use day or week" };
+    }
+
+    const metrics = getStatKeys(queueType);
+    if (!metrics.includes(metric)) {
+        return { error: `Invalid metric. Supported values: ${metrics.join(", ")}` };
+    }
+
+    const filterResult = parseMatchFilter(query);
+    if ("error" in filterResult) {
+        return { error: filterResult.error };
+    }
+
+    return {
+        parsedRange,
+        queueType,
+        bucket,
+        metric,
+        filter: filterResult.filter,
+    };
+}
+
+router.get("/guild/:guildId/timeseries", async (req: Request, res: Response) => {
+    try {
+        const { guildId } = req.params;
+        const validation = validateTimeseriesParams(req.query);
+
+        if ("error" in validation) {
+            return respondWithError(res, 400, validation.error);
+        }
+
+        const { parsedRange, queueType, bucket, metric, filter } = validation;
+
+        const summoners = await fetchGuildTimeseries(guildId, parsedRange, queueType, bucket, metric, filter);
+
+        if (!summoners) {
+            return respondWithError(res, 404, `Queue type '${queueType}' not supported`);
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            guildId,
+            range: parsedRange,
+            queueType,
+            ...filter,
+            bucket,
+            metric,
+            summoners,
+        });
+    } catch (error) {
+        logger.error("Routes > stats > Error with GET /guild/:guildId/timeseries", error);
+        return respondWithError(res, 500, "Failed to fetch guild timeseries. Please try again later.");
+    }
+});
+
+router.get("/:summonerPuuid/timeseries", async (req: Request, res: Response) => {
+    try {
+        const summonerPuuid = req.params.summonerPuuid;
+        const validation = validateTimeseriesParams(req.query);
+
+        if ("error" in validation) {
+            return respondWithError(res, 400, validation.error);
+        }
+
+        const { parsedRange, queueType, bucket, metric, filter } = validation;
+
+        const series = await fetchSummonerTimeseries(summonerPuuid, parsedRange, queueType, bucket, metric, filter);
+
+        if (!series) {
+            return respondWithError(res, 404, `Queue type '${queueType}' not supported`);
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            range: parsedRange,
+            queueType,
+            ...filter,
+            summonerPuuid,
+            bucket,
+            metric,
+            series,
+        });
+    } catch (error) {
+        logger.error("Routes > stats > Error with GET /:summonerPuuid/timeseries", error);
+        return respondWithError(res, 500, "Failed to fetch summoner timeseries. Please try again later.");
+    }
+});
+
+router.get("/:summonerPuuid/champions", async (req: Request, res: Response) => {
+    try {
+        const summonerPuuid = req.params.summonerPuuid;
+        const range = parseInt(req.query.range as string, 10) || 7;
+        const queueType = (req.query.queueType as string) || "ranked_solo";
+        const minGames = parseInt(req.query.minGames as string, 10) || 1;
+        const sortBy = (req.query.sortBy as string) || "games";
+        const order = (req.query.order as string) || "desc";
+
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const sortKeys = getStatKeys(queueType);
+        if (!sortKeys.includes(sortBy)) {
+            return respondWithError(res, 400, `Invalid sortBy. Supported values: ${sortKeys.join(", ")}`);
+        }
+
+        if (order !== "asc" && order !== "desc") {
+            return respondWithError(res, 400, "Invalid order. Use asc or desc");
+        }
+
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
+        const champions = await fetchSummonerChampionStats(summonerPuuid, range, queueType, filter, {
+            minGames,
+            sortBy,
+            order,
+        });
+
+        if (!champions) {
+            return respondWithError(res, 404, `Queue type '${queueType}' not supported`);
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            range,
+            queueType,
+            ...filter,
+            summonerPuuid,
+            minGames,
+            sortBy,
+            order,
+            champions,
+        });
+    } catch (error) {
+        logger.error("Routes > stats > Error with GET /:summonerPuuid/champions", error);
+        return respondWithError(res, 500, "Failed to fetch champion stats. Please try again later.");
+    }
+});
+
+router.get("/:summonerPuuid/streaks", async (req: Request, res: Response) => {
+    try {
+        const summonerPuuid = req.params.summonerPuuid;
+        const range = parseInt(req.query.range as string, 10) || 7;
+        const queueType = (req.query.queueType as string) || "ranked_solo";
+
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const filterResult = parseMatchFilter(req.query);
+        if ("error" in filterResult) {
+            return respondWithError(res, 400, filterResult.error);
+        }
+        const { filter } = filterResult;
+
+        const streaks = await fetchSummonerStreaks(summonerPuuid, range, queueType, filter);
+
+        if (!streaks) {
+            return respondWithError(res, 404, `Queue type '${queueType}' not supported`);
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            range,
+            queueType,
+            ...filter,
+            summonerPuuid,
+            streaks,
+        });
+    } catch (error) {
+        logger.error("Routes > stats > Error with GET /:summonerPuuid/streaks", error);
+        return respondWithError(res, 500, "Failed to fetch summoner streaks. Please try again later.");
+    }
+});
+
+router.get("/:summonerPuuid/compare", async (req: Request, res: Response) => {
+    try {
+        const summonerPuuid = req.params.summonerPuuid;
+        // Default to everything we keep (matches are pruned after 31 days)
+        const range = parseInt(req.query.range as string, 10) || 31;
+        const queueType = (req.query.queueType as string) || "ranked_solo";
+        const { patchA, patchB, includeRemakes } = req.query;
+
+        if (!getQueueHandler(queueType)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        if (!patchA || !patchB) {
+            return respondWithError(res, 400, "Missing required query parameters: patchA and patchB");
+        }
+
+        const patchResults = [patchA, patchB].map((patch) => parseMatchFilter({ patch, includeRemakes }));
+        for (const result of patchResults) {
+            if ("error" in result) {
+                return respondWithError(res, 400, result.error);
+            }
+        }
+        const remakesIncluded = includeRemakes === "true";
+
+        const comparison = await compareSummonerStatsByPatch(
+            summonerPuuid,
+            range,
+            queueType,
+            patchA as string,
+            patchB as string,
+            remakesIncluded
+        );
+
+        if (!comparison) {
+            return respondWithError(
+                res,
+                404,
+                `Queue type '${queueType}' not supported or no matches found on one of the patches`
+            );
+        }
+
+        return respondWithSuccess(res, 200, undefined, {
+            range,
+            queueType,
+            summonerPuuid,
+            patchA,
+            patchB,
+            includeRemakes: remakesIncluded,
+            comparison,
+        });
+    } catch (error) {
+        logger.error("Routes > stats > Error with GET /:summonerPuuid/compare", error);
+        return respondWithError(res, 500, "Failed to compare summoner stats. Please try again later.");
+    }
+});
+
 export default router;
@@ -7,7 +7,20 @@ import {
     addSummoner,
     removeSummoner,
     getUniqueSummoners,
+    getSummonerByPuuid,
 } from "../models/summoners.js";
+import { enqueueSummonerRefresh } from "../models/refreshJobs.js";
+import { isRegion, regions } from "../models/riot.js";
+import { getCurrentRanks, getRankHistory } from "../models/ranks.js";
+import { getSummonerMastery } from "../models/mastery.js";
+import {
+    getFrequentTeammates,
+    getLaneOpponents,
+} from "../models/participants.js";
+import {
+    getQueueHandler,
+    getSupportedQueueTypes,
+} from "../models/queues.js";
 import { respondWithSuccess, respondWithError } from "../utils/responses.js";
 import { logger } from "../utils/logger.js";
 
@@ -107,7 +120,7 @@ router.get("/cache/:summonerId", async (req: Request, res: Response) => {
 
 router.post("/", async (req: Request, res: Response) => {
     try {
-        const { summonerRiotId, guildId } = req.body;
+        const { summonerRiotId, guildId, region } = req.body;
 
         if (!summonerRiotId || !guildId) {
             return respondWithError(
@@ -117,7 +130,15 @@ router.post("/", async (req: Request, res: Response) => {
             );
         }
 
-        await addSummoner(summonerRiotId, guildId);
+        if (region !== undefined && !isRegion(region)) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid region. Supported regions: ${regions.join(", ")}`
+            );
+        }
+
+        await addSummoner(summonerRiotId, guildId, region);
         return respondWithSuccess(
             res,
             200,
@@ -135,21 +156,29 @@ router.post("/", async (req: Request, res: Response) => {
 
 router.delete("/", async (req: Request, res: Response) => {
     try {
-        const { summonerRiotId, guildId } = req.query;
+        const { summonerRiotId, puuid, guildId } = req.query;
 
-        if (!summonerRiotId || !guildId) {
+        if ((!summonerRiotId && !puuid) || !guildId) {
             return respondWithError(
                 res,
                 400,
-                "Missing required query parameters: summonerRiotId and guildId"
+                "Missing required query parameters: summonerRiotId or puuid, and guildId"
             );
         }
 
-        await removeSummoner(summonerRiotId as string, guildId as string);
+        const summonerLabel = (puuid || summonerRiotId) as string;
+
+        await removeSummoner(
+            {
+                puuid: puuid as string | undefined,
+                riotId: summonerRiotId as string | undefined,
+            },
+            guildId as string
+        );
         return respondWithSuccess(
             res,
             200,
-            `Summoner '${summonerRiotId}' was successfully removed from Guild '${guildId}'`
+            `Summoner '${summonerLabel}' was successfully removed from Guild '${guildId}'`
         );
     } catch (error) {
         logger.error("Routes > summoners > Error with DELETE /", error);
@@ -161,6 +190,171 @@ router.delete("/", async (req: Request, res: Response) => {
     }
 });
 
+router.post("/:puuid/refresh", async (req: Request, res: Response) => {
+    try {
+        const { puuid } = req.params;
+        const queueTypes: unknown =
+            req.body?.queueTypes ?? getSupportedQueueTypes();
+
+        if (
+            !Array.isArray(queueTypes) ||
+            queueTypes.length === 0 ||
+            !queueTypes.every(
+                (queueType) =>
+                    typeof queueType === "string" && getQueueHandler(queueType)
+            )
+        ) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueTypes. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const summoner = await getSummonerByPuuid(puuid);
+        if (!summoner) {
+            return respondWithError(
+                res,
+                404,
+                `Summoner with PUUID '${puuid}' is not tracked`
+            );
+        }
+
+        const result = enqueueSummonerRefresh(puuid, queueTypes);
+
+        if (result.status === "throttled") {
+            res.set("Retry-After", String(result.retryAfterSeconds));
+            return respondWithError(
+                res,
+                429,
+                `Summoner '${summoner.name}' was refreshed recently. Try again in ${result.retryAfterSeconds} second(s) or poll job '${result.job.id}'`
+            );
+        }
+
+        return respondWithSuccess(
+            res,
+            202,
+            result.status === "created"
+                ? `Refresh queued for summoner '${summoner.name}'`
+                : `Refresh already in progress for summoner '${summoner.name}'`,
+            { jobId: result.job.id, job: result.job }
+        );
+    } catch (error) {
+        logger.error(
+            "Routes > summoners > Error with POST /:puuid/refresh",
+            error
+        );
+        return respondWithError(
+            res,
+            500,
+            "Failed to queue summoner refresh. Please try again later."
+        );
+    }
+});
+
+router.get("/:puuid/rank", async (req: Request, res: Response) => {
+    try {
+        const { puuid } = req.params;
+
+        const summoner = await getSummonerByPuuid(puuid);
+        if (!summoner) {
+            return respondWithError(
+                res,
+                404,
+                `Summoner with PUUID '${puuid}' is not tracked`
+            );
+        }
+
+        const ranks = await getCurrentRanks(puuid);
+        return respondWithSuccess(res, 200, undefined, {
+            summoner,
+            ranks,
+        });
+    } catch (error) {
+        logger.error("Routes > summoners > Error with GET /:puuid/rank", error);
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch summoner rank. Please try again later."
+        );
+    }
+});
+
+router.get("/:puuid/rank/history", async (req: Request, res: Response) => {
+    try {
+        const { puuid } = req.params;
+        const range = parseInt(req.query.range as string, 10) || 30;
+        const queueType = req.query.queueType as string | undefined;
+
+        const handler = queueType ? getQueueHandler(queueType) : null;
+        if (queueType && !handler) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const summoner = await getSummonerByPuuid(puuid);
+        if (!summoner) {
+            return respondWithError(
+                res,
+                404,
+                `Summoner with PUUID '${puuid}' is not tracked`
+            );
+        }
+
+        const history = await getRankHistory(puuid, range, handler?.queueId);
+        return respondWithSuccess(res, 200, undefined, {
+            summoner,
+            range,
+            history,
+        });
+    } catch (error) {
+        logger.error(
+            "Routes > summoners > Error with GET /:puuid/rank/history",
+            error
+        );
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch summoner rank history. Please try again later."
+        );
+    }
+});
+
+router.get("/:puuid/mastery", async (req: Request, res: Response) => {
+    try {
+        const { puuid } = req.params;
+        const limit = parseInt(req.query.limit as string, 10) || undefined;
+
+        const summoner = await getSummonerByPuuid(puuid);
+        if (!summoner) {
+            return respondWithError(
+                res,
+                404,
+                `Summoner with PUUID '${puuid}' is not tracked`
+            );
+        }
+
+        const mastery = await getSummonerMastery(puuid, limit);
+        return respondWithSuccess(res, 200, undefined, {
+            summoner,
+            mastery,
+        });
+    } catch (error) {
+        logger.error(
+            "Routes > summoners > Error with GET /:puuid/mastery",
+            error
+        );
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch summoner mastery. Please try again later."
+        );
+    }
+});
+
 router.get("/unique", async (_req: Request, res: Response) => {
     try {
         const uniqueSummoners = await getUniqueSummoners();
@@ -178,4 +372,111 @@ router.get("/unique", async (_req: Request, res: Response) => {
     }
 });
 
+router.get(
+    "/:puuid/frequent-teammates",
+    async (req: Request, res: Response) => {
+        try {
+            const { puuid } = req.params;
+            const range = parseInt(req.query.range as string, 10) || 30;
+            const limit = Math.min(
+                parseInt(req.query.limit as string, 10) || 10,
+                50
+            );
+            const queueType = req.query.queueType as string | undefined;
+
+            const handler = queueType ? getQueueHandler(queueType) : null;
+            if (queueType && !handler) {
+                return respondWithError(
+                    res,
+                    400,
+                    `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+                );
+            }
+
+            const summoner = await getSummonerByPuuid(puuid);
+            if (!summoner) {
+                return respondWithError(
+                    res,
+                    404,
+                    `Summoner with PUUID '${puuid}' is not tracked`
+                );
+            }
+
+            const teammates = await getFrequentTeammates(
+                puuid,
+                range,
+                handler?.queueId,
+                limit
+            );
+            return respondWithSuccess(res, 200, undefined, {
+                summoner,
+                range,
+                queueType: queueType ?? null,
+                teammates,
+            });
+        } catch (error) {
+            logger.error(
+                "Routes > summoners > Error with GET /:puuid/frequent-teammates",
+                error
+            );
+            return respondWithError(
+                res,
+                500,
+                "Failed to fetch frequent teammates. Please try again later."
+            );
+        }
+    }
+);
+
+router.get("/:puuid/opponents", async (req: Request, res: Response) => {
+    try {
+        const { puuid } = req.params;
+        const range = parseInt(req.query.range as string, 10) || 30;
+        const queueType = req.query.queueType as string | undefined;
+        const champion = (req.query.champion as string | undefined)?.trim();
+
+        const handler = queueType ? getQueueHandler(queueType) : null;
+        if (queueType && !handler) {
+            return respondWithError(
+                res,
+                400,
+                `Invalid queueType. Supported queue types: ${getSupportedQueueTypes().join(", ")}`
+            );
+        }
+
+        const summoner = await getSummonerByPuuid(puuid);
+        if (!summoner) {
+            return respondWithError(
+                res,
+                404,
+                `Summoner with PUUID '${puuid}' is not tracked`
+            );
+        }
+
+        const opponents = await getLaneOpponents(
+            puuid,
+            range,
+            handler?.queueId,
+            champion || undefined
+        );
+        return respondWithSuccess(res, 200, undefined, {
+            summoner,
+            range,
+            queueType: queueType ?? null,
+            champion: champion || null,
+            ...opponents,
+        });
+    } catch (error) {
+        logger.error(
+            "Routes > summoners > Error with GET /:puuid/opponents",
+            error
+        );
+        return respondWithError(
+            res,
+            500,
+            "Failed to fetch lane opponents. Please try again later."
+        );
+    }
+});
+
 export default router;
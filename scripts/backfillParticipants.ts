@@ -0,0 +1,21 @@
+import dotenv from "dotenv";
+import { backfillMatchParticipants } from "../models/participants.js";
+import { logger } from "../utils/logger.js";
+
+dotenv.config();
+
+async function main() {
+    try {
+        logger.info("Scripts > backfillParticipants > Backfilling match participants from raw matches");
+
+        const processed = await backfillMatchParticipants();
+
+        logger.success(`Scripts > backfillParticipants > Stored participants for ${processed} matches`);
+        process.exit(0);
+    } catch (error) {
+        logger.error("Scripts > backfillParticipants > Error backfilling participants", error);
+        process.exit(1);
+    }
+}
+
+main();
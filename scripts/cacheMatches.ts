@@ -8,7 +8,7 @@ async function main() {
     try {
         logger.info("Scripts > cacheMatches > Starting match data caching");
 
-        await cacheMatchData();
+        await cacheMatchData(undefined, { trigger: "script" });
 
         logger.success("Scripts > cacheMatches > Match caching completed successfully");
         process.exit(0);
@@ -0,0 +1,229 @@
+import express, { Request, Response } from "express";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import {
+    RiotChampionMastery,
+    RiotCurrentGameInfo,
+    RiotLeagueEntry,
+    RiotMatchResponse,
+} from "../types/riot.js";
+import { logger } from "../utils/logger.js";
+
+dotenv.config();
+
+/**
+ * Local stand-in for the Riot API that replays recorded JSON from
+ * fixtures/riot, so match ingestion can run without a network or API key.
+ *
+ * Start it with `npm run mock-riot`, then run the API (or `npm run cache`)
+ * with RIOT_API_BASE_URL=http://localhost:4010/{routing}
+ *
+ * Match timestamps are shifted so the newest fixture match ended an hour ago,
+ * which keeps the recorded games inside the cache job's fetch window.
+ */
+
+const PORT = process.env.MOCK_RIOT_PORT || 4010;
+const FIXTURES_DIR =
+    process.env.MOCK_RIOT_FIXTURES_DIR || path.join("fixtures", "riot");
+const RATE_LIMIT_HEADERS = {
+    "X-App-Rate-Limit": "20:1,100:120",
+    "X-App-Rate-Limit-Count": "1:1,1:120",
+    "X-Method-Rate-Limit": "2000:10",
+    "X-Method-Rate-Limit-Count": "1:10",
+};
+
+interface FixtureAccount {
+    puuid: string;
+    gameName: string;
+    tagLine: string;
+}
+
+function readFixture<T>(file: string): T {
+    return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), "utf-8"));
+}
+
+function loadMatches(): Map<string, RiotMatchResponse> {
+    const matchesDir = path.join(FIXTURES_DIR, "matches");
+    const matches = new Map<string, RiotMatchResponse>();
+
+    for (const file of fs.readdirSync(matchesDir)) {
+        if (!file.endsWith(".json")) continue;
+        const match = readFixture<RiotMatchResponse>(path.join("matches", file));
+        matches.set(match.metadata.matchId, match);
+    }
+
+    const latestEnd = Math.max(
+        ...[...matches.values()].map(
+            (m) => m.info.gameEndTimestamp ?? m.info.gameStartTimestamp
+        )
+    );
+    const offset = Date.now() - 60 * 60 * 1000 - latestEnd;
+
+    for (const { info } of matches.values()) {
+        info.gameCreation += offset;
+        info.gameStartTimestamp += offset;
+        if (info.gameEndTimestamp) {
+            info.gameEndTimestamp += offset;
+        }
+    }
+
+    return matches;
+}
+
+const accounts = readFixture<FixtureAccount[]>("accounts.json");
+const summoners =
+    readFixture<Record<string, { puuid: string }[]>>("summoners.json");
+const leagueEntries =
+    readFixture<Record<string, RiotLeagueEntry[]>>("league-entries.json");
+const championMasteries = readFixture<Record<string, RiotChampionMastery[]>>(
+    "champion-masteries.json"
+);
+const activeGames = readFixture<RiotCurrentGameInfo[]>("active-games.json");
+const matches = loadMatches();
+
+function notFound(res: Response, message: string): Response {
+    return res.status(404).json({ status: { message, status_code: 404 } });
+}
+
+const app = express();
+
+// Any token is accepted, including none, so ingestion runs without a key
+app.use((req, res, next) => {
+    res.set(RATE_LIMIT_HEADERS);
+    logger.debug(`Scripts > mockRiotServer > ${req.method} ${req.originalUrl}`);
+    return next();
+});
+
+app.get(
+    "/:routing/riot/account/v1/accounts/by-riot-id/:gameName/:tagLine",
+    (req: Request, res: Response) => {
+        const { gameName, tagLine } = req.params;
+        const account = accounts.find(
+            (a) =>
+                a.gameName.toLowerCase() === gameName.toLowerCase() &&
+                a.tagLine.toLowerCase() === tagLine.toLowerCase()
+        );
+        if (!account) {
+            return notFound(
+                res,
+                "Data not found - No results found for player with riot id"
+            );
+        }
+        return res.json(account);
+    }
+);
+
+app.get(
+    "/:routing/riot/account/v1/accounts/by-puuid/:puuid",
+    (req: Request, res: Response) => {
+        const account = accounts.find((a) => a.puuid === req.params.puuid);
+        if (!account) {
+            return notFound(res, "Data not found - No results found for puuid");
+        }
+        return res.json(account);
+    }
+);
+
+app.get(
+    "/:routing/riot/account/v1/region/by-game/lol/by-puuid/:puuid",
+    (req: Request, res: Response) => {
+        const { puuid } = req.params;
+        const region = Object.keys(summoners).find((platform) =>
+            summoners[platform].some((s) => s.puuid === puuid)
+        );
+        if (!region) {
+            return notFound(res, "Data not found - No results found for puuid");
+        }
+        return res.json({ puuid, game: "lol", region });
+    }
+);
+
+app.get(
+    "/:routing/lol/summoner/v4/summoners/by-puuid/:puuid",
+    (req: Request, res: Response) => {
+        const { routing, puuid } = req.params;
+        const summoner = summoners[routing]?.find((s) => s.puuid === puuid);
+        if (!summoner) {
+            return notFound(res, "Data not found - summoner not found");
+        }
+        return res.json(summoner);
+    }
+);
+
+app.get(
+    "/:routing/lol/league/v4/entries/by-puuid/:puuid",
+    (req: Request, res: Response) => {
+        // Unranked players get an empty list rather than a 404
+        return res.json(leagueEntries[req.params.puuid] ?? []);
+    }
+);
+
+app.get(
+    "/:routing/lol/champion-mastery/v4/champion-masteries/by-puuid/:puuid",
+    (req: Request, res: Response) => {
+        return res.json(championMasteries[req.params.puuid] ?? []);
+    }
+);
+
+app.get(
+    "/:routing/lol/spectator/v5/active-games/by-summoner/:puuid",
+    (req: Request, res: Response) => {
+        const game = activeGames.find((g) =>
+            g.participants.some((p) => p.puuid === req.params.puuid)
+        );
+        if (!game) {
+            return notFound(
+                res,
+                "Data not found - spectator game info isn't found"
+            );
+        }
+        // Report the recorded game as having started ten minutes ago
+        return res.json({
+            ...game,
+            gameStartTime: Date.now() - 10 * 60 * 1000,
+        });
+    }
+);
+
+app.get(
+    "/:routing/lol/match/v5/matches/by-puuid/:puuid/ids",
+    (req: Request, res: Response) => {
+        const { puuid } = req.params;
+        const startTime = Number(req.query.startTime) * 1000 || 0;
+        const endTime = Number(req.query.endTime) * 1000 || Date.now();
+        const queueId = req.query.queueId ? Number(req.query.queueId) : null;
+        const start = Number(req.query.start) || 0;
+        const count = Number(req.query.count) || 20;
+
+        const ids = [...matches.values()]
+            .filter(
+                ({ metadata, info }) =>
+                    metadata.participants.includes(puuid) &&
+                    (queueId === null || info.queueId === queueId) &&
+                    info.gameStartTimestamp >= startTime &&
+                    info.gameStartTimestamp <= endTime
+            )
+            .sort((a, b) => b.info.gameStartTimestamp - a.info.gameStartTimestamp)
+            .map((m) => m.metadata.matchId);
+
+        return res.json(ids.slice(start, start + count));
+    }
+);
+
+app.get(
+    "/:routing/lol/match/v5/matches/:matchId",
+    (req: Request, res: Response) => {
+        const match = matches.get(req.params.matchId);
+        if (!match) {
+            return notFound(res, "Data not found - match file not found");
+        }
+        return res.json(match);
+    }
+);
+
+app.listen(PORT, () => {
+    logger.info(
+        `Scripts > mockRiotServer > Replaying ${matches.size} matches and ${accounts.length} accounts from ${FIXTURES_DIR} on port ${PORT}`
+    );
+});
@@ -0,0 +1,21 @@
+import dotenv from "dotenv";
+import { refreshStaticData } from "../models/staticData.js";
+import { logger } from "../utils/logger.js";
+
+dotenv.config();
+
+async function main() {
+    try {
+        logger.info("Scripts > refreshStaticData > Downloading the latest Data Dragon and Arena data");
+
+        const version = await refreshStaticData();
+
+        logger.success(`Scripts > refreshStaticData > Static data snapshot is now at patch ${version}`);
+        process.exit(0);
+    } catch (error) {
+        logger.error("Scripts > refreshStaticData > Error refreshing static data", error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -15,6 +15,11 @@ import reports from "./routes/reports.js";
 import rankings from "./routes/rankings.js";
 import topgg from "./routes/topgg.js";
 import hours from "./routes/hours.js";
+import jobs from "./routes/jobs.js";
+import cache from "./routes/cache.js";
+import events from "./routes/events.js";
+import staticData from "./routes/static.js";
+import patches from "./routes/patches.js";
 
 // Import the cron job initializer
 import { initCronJobs } from "./jobs/index.js";
@@ -52,6 +57,11 @@ app.use("/reports", reports);
 app.use("/rankings", rankings);
 app.use("/topgg", topgg);
 app.use("/hours", hours);
+app.use("/jobs", jobs);
+app.use("/cache", cache);
+app.use("/events", events);
+app.use("/static", staticData);
+app.use("/patches", patches);
 
 // Decide your server port
 const PORT = process.env.PORT || 4000;
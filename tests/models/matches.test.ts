@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { matchStarts, riotGet } = vi.hoisted(() => {
+    // One page of 100 IDs per window before it counts as truncated
+    process.env.MAX_MATCH_ID_PAGES = "1";
+
+    const matchStarts: number[] = [];
+    const riotGet = vi.fn(async (_area: string, _method: string, path: string) => {
+        const params = new URL(path, "http://riot").searchParams;
+        const startTime = Number(params.get("startTime"));
+        const endTime = Number(params.get("endTime"));
+        const start = Number(params.get("start"));
+        const count = Number(params.get("count"));
+
+        return matchStarts
+            .filter((time) => time >= startTime && time <= endTime)
+            .sort((a, b) => b - a)
+            .slice(start, start + count)
+            .map((time) => `NA1_${time}`);
+    });
+    return { matchStarts, riotGet };
+});
+
+vi.mock("../../utils/riotClient.js", () => ({
+    riotGet,
+    getRiotStatusCode: () => null,
+}));
+
+const { fetchWindowMatchIds } = await import("../../models/matches.js");
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+describe("fetchWindowMatchIds", () => {
+    beforeEach(() => {
+        matchStarts.length = 0;
+        riotGet.mockClear();
+    });
+
+    it("returns a window that fits in one page without splitting", async () => {
+        matchStarts.push(...Array.from({ length: 30 }, (_, i) => i * 60));
+
+        const result = await fetchWindowMatchIds("puuid", "americas", 0, DAY, 420);
+
+        expect(result.truncated).toBe(false);
+        expect(result.matchIds).toHaveLength(30);
+        expect(riotGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("splits a capped window until every match is fetched", async () => {
+        // 250 games spread over five days
+        matchStarts.push(
+            ...Array.from({ length: 250 }, (_, i) => i * Math.floor((5 * DAY) / 250))
+        );
+
+        const result = await fetchWindowMatchIds("puuid", "americas", 0, 5 * DAY, 420);
+
+        expect(result.truncated).toBe(false);
+        expect(new Set(result.matchIds).size).toBe(250);
+        expect(result.matchIds).toHaveLength(250);
+    });
+
+    it("stops splitting at the minimum window and reports truncation", async () => {
+        // More games inside one hour than a page holds
+        matchStarts.push(...Array.from({ length: 150 }, (_, i) => i * 10));
+
+        const result = await fetchWindowMatchIds("puuid", "americas", 0, HOUR, 420);
+
+        expect(result.truncated).toBe(true);
+        expect(result.matchIds).toHaveLength(100);
+    });
+
+    it("does not duplicate a match on the split point", async () => {
+        const middle = Math.floor((2 * HOUR) / 2);
+        matchStarts.push(
+            middle,
+            ...Array.from({ length: 120 }, (_, i) => i * 50).filter(
+                (time) => time !== middle
+            )
+        );
+
+        const result = await fetchWindowMatchIds("puuid", "americas", 0, 2 * HOUR, 420);
+
+        expect(result.matchIds.filter((id) => id === `NA1_${middle}`)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,267 @@
+import { RankSnapshot } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "../../utils/prisma.js";
+import {
+    recordLpChanges,
+    recordRankEvent,
+    toAbsoluteLp,
+} from "../../models/ranks.js";
+
+const rankSnapshot = { findMany: vi.fn() };
+const rankEvent = { create: vi.fn() };
+const rankedSoloMatch = { findMany: vi.fn(), update: vi.fn() };
+Object.assign(prisma, { rankSnapshot, rankEvent, rankedSoloMatch });
+
+function snapshot(
+    tier: string,
+    division: string,
+    capturedAt: string
+): RankSnapshot {
+    return {
+        id: `${tier}-${division}-${capturedAt}`,
+        summoner_puuid: "puuid",
+        queue_id: 420,
+        tier,
+        division,
+        league_points: 0,
+        wins: 10,
+        losses: 10,
+        captured_at: new Date(capturedAt),
+        last_seen_at: new Date(capturedAt),
+    };
+}
+
+function recordedType(): string {
+    return rankEvent.create.mock.calls[0][0].data.type;
+}
+
+describe("recordRankEvent", () => {
+    beforeEach(() => {
+        rankSnapshot.findMany.mockReset();
+        rankEvent.create.mockReset();
+    });
+
+    it("records nothing when the tier and division are unchanged", async () => {
+        await recordRankEvent(
+            snapshot("GOLD", "II", "2025-03-01"),
+            snapshot("GOLD", "II", "2025-03-02")
+        );
+
+        expect(rankEvent.create).not.toHaveBeenCalled();
+    });
+
+    it("records a demotion without checking the season peak", async () => {
+        await recordRankEvent(
+            snapshot("GOLD", "IV", "2025-03-01"),
+            snapshot("SILVER", "I", "2025-03-02")
+        );
+
+        expect(rankSnapshot.findMany).not.toHaveBeenCalled();
+        expect(recordedType()).toBe("DEMOTION");
+    });
+
+    it("records a promotion above the season peak as a new peak", async () => {
+        rankSnapshot.findMany.mockResolvedValue([
+            { tier: "GOLD", division: "III" },
+            { tier: "GOLD", division: "II" },
+        ]);
+
+        await recordRankEvent(
+            snapshot("GOLD", "II", "2025-03-01"),
+            snapshot("GOLD", "I", "2025-03-02")
+        );
+
+        expect(recordedType()).toBe("NEW_PEAK");
+    });
+
+    it("records a promotion back to the season peak as a promotion", async () => {
+        rankSnapshot.findMany.mockResolvedValue([
+            { tier: "PLATINUM", division: "IV" },
+            { tier: "GOLD", division: "I" },
+        ]);
+
+        await recordRankEvent(
+            snapshot("GOLD", "I", "2025-03-01"),
+            snapshot("PLATINUM", "IV", "2025-03-02")
+        );
+
+        expect(recordedType()).toBe("PROMOTION");
+    });
+
+    it("records a promotion as a promotion when nothing else was seen this season", async () => {
+        rankSnapshot.findMany.mockResolvedValue([]);
+
+        await recordRankEvent(
+            snapshot("GOLD", "II", "2024-12-30"),
+            snapshot("GOLD", "I", "2025-01-02")
+        );
+
+        expect(recordedType()).toBe("PROMOTION");
+    });
+});
+
+describe("toAbsoluteLp", () => {
+    it("counts 400 LP per tier and 100 LP per division", () => {
+        expect(
+            toAbsoluteLp({ tier: "IRON", division: "IV", league_points: 0 })
+        ).toBe(0);
+        expect(
+            toAbsoluteLp({ tier: "GOLD", division: "II", league_points: 50 })
+        ).toBe(3 * 400 + 2 * 100 + 50);
+    });
+
+    it("continues from Diamond I into the shared apex ladder", () => {
+        const diamondCap = toAbsoluteLp({
+            tier: "DIAMOND",
+            division: "I",
+            league_points: 100,
+        });
+
+        expect(
+            toAbsoluteLp({ tier: "MASTER", division: "I", league_points: 0 })
+        ).toBe(diamondCap);
+        expect(
+            toAbsoluteLp({
+                tier: "CHALLENGER",
+                division: "I",
+                league_points: 900,
+            })
+        ).toBe(diamondCap + 900);
+    });
+});
+
+describe("recordLpChanges", () => {
+    const summoner = { name: "Summoner", puuid: "puuid" };
+    const HOUR_MS = 60 * 60 * 1000;
+    const start = Date.now() - 24 * HOUR_MS;
+
+    let snapshots: RankSnapshot[];
+    let matches: {
+        id: string;
+        queue_id: number;
+        win: boolean;
+        is_remake: boolean;
+        game_end_timestamp: bigint;
+        lp_change: number | null;
+    }[];
+
+    function reading(
+        hoursIn: number,
+        division: string,
+        leaguePoints: number,
+        wins: number,
+        losses: number
+    ): RankSnapshot {
+        const at = new Date(start + hoursIn * HOUR_MS);
+        return {
+            id: `snapshot-${hoursIn}`,
+            summoner_puuid: summoner.puuid,
+            queue_id: 420,
+            tier: "GOLD",
+            division,
+            league_points: leaguePoints,
+            wins,
+            losses,
+            captured_at: at,
+            last_seen_at: at,
+        };
+    }
+
+    function match(hoursIn: number, win: boolean, isRemake = false) {
+        return {
+            id: `match-${hoursIn}`,
+            queue_id: 420,
+            win,
+            is_remake: isRemake,
+            game_end_timestamp: BigInt(start + hoursIn * HOUR_MS),
+            lp_change: null,
+        };
+    }
+
+    function lpChanges(): Record<string, number> {
+        return Object.fromEntries(
+            rankedSoloMatch.update.mock.calls.map(([args]) => [
+                args.where.id,
+                args.data.lp_change,
+            ])
+        );
+    }
+
+    beforeEach(() => {
+        snapshots = [];
+        matches = [];
+        rankSnapshot.findMany.mockReset();
+        rankedSoloMatch.findMany.mockReset();
+        rankedSoloMatch.update.mockReset();
+
+        rankSnapshot.findMany.mockImplementation(async ({ where }) =>
+            snapshots.filter((s) => s.queue_id === where.queue_id)
+        );
+        rankedSoloMatch.findMany.mockImplementation(async ({ where }) =>
+            matches.filter(
+                (m) =>
+                    m.queue_id === where.queue_id &&
+                    (where.is_remake === undefined ||
+                        m.is_remake === where.is_remake) &&
+                    m.game_end_timestamp > where.game_end_timestamp.gt &&
+                    m.game_end_timestamp <= where.game_end_timestamp.lte
+            )
+        );
+    });
+
+    it("splits the LP gained across a promotion evenly between the wins", async () => {
+        snapshots.push(
+            reading(0, "II", 70, 10, 10),
+            reading(3, "I", 10, 12, 10)
+        );
+        matches.push(match(1, true), match(2, true));
+
+        await expect(recordLpChanges(summoner)).resolves.toBe(2);
+        expect(lpChanges()).toEqual({ "match-1": 20, "match-2": 20 });
+    });
+
+    it("gives the rounding remainder to the last match", async () => {
+        snapshots.push(
+            reading(0, "II", 0, 10, 10),
+            reading(3, "II", 41, 12, 10)
+        );
+        matches.push(match(1, true), match(2, true));
+
+        await recordLpChanges(summoner);
+
+        expect(lpChanges()).toEqual({ "match-1": 20, "match-2": 21 });
+    });
+
+    it("leaves a gap with mixed results unattributed", async () => {
+        snapshots.push(
+            reading(0, "II", 50, 10, 10),
+            reading(3, "II", 52, 11, 11)
+        );
+        matches.push(match(1, true), match(2, false));
+
+        await expect(recordLpChanges(summoner)).resolves.toBe(0);
+        expect(rankedSoloMatch.update).not.toHaveBeenCalled();
+    });
+
+    it("waits until every game in the gap has been stored", async () => {
+        snapshots.push(
+            reading(0, "II", 50, 10, 10),
+            reading(3, "II", 90, 12, 10)
+        );
+        matches.push(match(1, true));
+
+        await expect(recordLpChanges(summoner)).resolves.toBe(0);
+        expect(rankedSoloMatch.update).not.toHaveBeenCalled();
+    });
+
+    it("ignores remakes that ended inside the gap", async () => {
+        snapshots.push(
+            reading(0, "II", 50, 10, 10),
+            reading(3, "II", 72, 11, 10)
+        );
+        matches.push(match(1, false, true), match(2, true));
+
+        await expect(recordLpChanges(summoner)).resolves.toBe(1);
+        expect(lpChanges()).toEqual({ "match-2": 22 });
+    });
+});
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    buildTimeseries,
+    calculateDistribution,
+    calculateStreaks,
+} from "../../models/stats.js";
+import { getQueueHandler } from "../../models/queues.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function match(startedAt: string, win: boolean) {
+    return {
+        game_start_timestamp: BigInt(new Date(startedAt).getTime()),
+        win,
+        kills: 5,
+        deaths: 5,
+        assists: 5,
+    };
+}
+
+describe("buildTimeseries", () => {
+    const handler = getQueueHandler("ranked_solo")!;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // A Thursday
+        vi.setSystemTime(new Date("2025-03-13T15:00:00Z"));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("has a bucket for every day in the range, empty ones included", () => {
+        const series = buildTimeseries(
+            handler,
+            [
+                match("2025-03-11T10:00:00Z", true),
+                match("2025-03-11T23:59:00Z", false),
+                match("2025-03-13T01:00:00Z", true),
+            ],
+            Date.now() - 2 * DAY_MS,
+            "day",
+            "winRate"
+        );
+
+        expect(series).toEqual([
+            { bucketStart: "2025-03-11T00:00:00.000Z", games: 2, value: 50 },
+            { bucketStart: "2025-03-12T00:00:00.000Z", games: 0, value: null },
+            { bucketStart: "2025-03-13T00:00:00.000Z", games: 1, value: 100 },
+        ]);
+    });
+
+    it("starts weekly buckets on Monday", () => {
+        const series = buildTimeseries(
+            handler,
+            [
+                match("2025-03-02T12:00:00Z", true), // Sunday
+                match("2025-03-03T12:00:00Z", true), // Monday
+                match("2025-03-12T12:00:00Z", false),
+            ],
+            Date.now() - 12 * DAY_MS,
+            "week",
+            "games"
+        );
+
+        expect(series).toEqual([
+            { bucketStart: "2025-02-24T00:00:00.000Z", games: 1, value: 1 },
+            { bucketStart: "2025-03-03T00:00:00.000Z", games: 1, value: 1 },
+            { bucketStart: "2025-03-10T00:00:00.000Z", games: 1, value: 1 },
+        ]);
+    });
+});
+
+describe("calculateStreaks", () => {
+    function results(...wins: boolean[]) {
+        return wins.map((win, i) => ({
+            game_start_timestamp: BigInt(i * 60 * 60 * 1000),
+            win,
+        }));
+    }
+
+    it("reports no streak without matches", () => {
+        expect(calculateStreaks([])).toEqual({
+            currentStreak: { type: null, length: 0 },
+            longestWinStreak: 0,
+            longestLossStreak: 0,
+        });
+    });
+
+    it("finds the longest runs and the run ending with the latest match", () => {
+        const matches = results(
+            true,
+            true,
+            true,
+            false,
+            false,
+            true,
+            false,
+            false
+        );
+
+        expect(calculateStreaks(matches)).toEqual({
+            currentStreak: { type: "loss", length: 2 },
+            longestWinStreak: 3,
+            longestLossStreak: 2,
+        });
+    });
+
+    it("orders matches by start time before walking them", () => {
+        // Newest first, as the match queries return them
+        const matches = results(false, true, true).reverse();
+
+        expect(calculateStreaks(matches).currentStreak).toEqual({
+            type: "win",
+            length: 2,
+        });
+    });
+});
+
+describe("calculateDistribution", () => {
+    it("is null without values", () => {
+        expect(calculateDistribution([])).toBeNull();
+    });
+
+    it("collapses to the value when there is only one", () => {
+        expect(calculateDistribution([7])).toEqual({
+            median: 7,
+            stdDev: 0,
+            min: 7,
+            max: 7,
+            p25: 7,
+            p75: 7,
+        });
+    });
+
+    it("interpolates percentiles between the closest values", () => {
+        expect(calculateDistribution([9, 2, 5, 4, 7, 4, 5, 4])).toEqual({
+            median: 4.5,
+            stdDev: 2,
+            min: 2,
+            max: 9,
+            p25: 4,
+            p75: 5.5,
+        });
+    });
+
+    it("rounds to two decimals", () => {
+        expect(calculateDistribution([1, 2, 3])).toEqual({
+            median: 2,
+            stdDev: 0.82,
+            min: 1,
+            max: 3,
+            p25: 1.5,
+            p75: 2.5,
+        });
+    });
+});
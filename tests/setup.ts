@@ -0,0 +1,8 @@
+import { vi } from "vitest";
+
+// Unit tests never reach a database; tests that need queries stub the
+// delegates they use on this object
+vi.mock("../utils/prisma.js", () => {
+    const prisma = {};
+    return { default: prisma, prisma };
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+    encodeMatchCursor,
+    parseMatchFilter,
+    parseMatchListOptions,
+} from "../../utils/filters.js";
+
+describe("parseMatchFilter", () => {
+    it("returns an empty filter when nothing is set", () => {
+        expect(parseMatchFilter({})).toEqual({ filter: {} });
+        expect(parseMatchFilter({ patch: "", sincePatch: "" })).toEqual({
+            filter: {},
+        });
+    });
+
+    it("accepts major.minor patches", () => {
+        expect(parseMatchFilter({ patch: "14.20" })).toEqual({
+            filter: { patch: "14.20" },
+        });
+        expect(parseMatchFilter({ sincePatch: "25.1" })).toEqual({
+            filter: { sincePatch: "25.1" },
+        });
+    });
+
+    it("rejects patches that aren't major.minor", () => {
+        for (const patch of ["14", "14.20.1", "latest", ["14.20"]]) {
+            expect(parseMatchFilter({ patch })).toHaveProperty("error");
+        }
+    });
+
+    it("rejects patch and sincePatch together", () => {
+        expect(
+            parseMatchFilter({ patch: "14.20", sincePatch: "14.19" })
+        ).toEqual({ error: "Use either patch or sincePatch, not both" });
+    });
+
+    it("only sets includeRemakes when it is true", () => {
+        expect(parseMatchFilter({ includeRemakes: "true" })).toEqual({
+            filter: { includeRemakes: true },
+        });
+        expect(parseMatchFilter({ includeRemakes: "false" })).toEqual({
+            filter: {},
+        });
+        expect(parseMatchFilter({ includeRemakes: "yes" })).toEqual({
+            error: "Invalid includeRemakes. Use true or false",
+        });
+    });
+});
+
+describe("parseMatchListOptions", () => {
+    const columns = ["match_id", "kills", "deaths", "champion_name"];
+
+    function parse(query: Record<string, unknown>) {
+        return parseMatchListOptions(query, columns);
+    }
+
+    it("defaults to the newest 50 matches", () => {
+        expect(parse({})).toEqual({
+            options: {
+                sortBy: "game_start_timestamp",
+                order: "desc",
+                limit: 50,
+            },
+        });
+    });
+
+    it("reads every option", () => {
+        expect(
+            parse({
+                limit: "10",
+                sortBy: "kills",
+                order: "asc",
+                champion: "Ahri",
+                result: "win",
+                minDuration: "900",
+                fields: "kills, deaths",
+            })
+        ).toEqual({
+            options: {
+                sortBy: "kills",
+                order: "asc",
+                limit: 10,
+                champion: "Ahri",
+                result: "win",
+                minDuration: 900,
+                fields: ["kills", "deaths"],
+            },
+        });
+    });
+
+    it("rejects out of range and unknown values", () => {
+        for (const query of [
+            { limit: "0" },
+            { limit: "201" },
+            { limit: "1.5" },
+            { sortBy: "gold" },
+            { order: "up" },
+            { result: "draw" },
+            { minDuration: "-1" },
+            { fields: "kills,items" },
+        ]) {
+            expect(parse(query)).toHaveProperty("error");
+        }
+    });
+
+    describe("cursor", () => {
+        const cursor = encodeMatchCursor({
+            sortBy: "kills",
+            order: "desc",
+            value: "12",
+            matchId: "NA1_123",
+        });
+
+        it("decodes a cursor made for the requested sort", () => {
+            const result = parse({ sortBy: "kills", order: "desc", cursor });
+
+            expect(result).toHaveProperty("options.cursor", {
+                sortBy: "kills",
+                order: "desc",
+                value: "12",
+                matchId: "NA1_123",
+            });
+        });
+
+        it("rejects a cursor made for another sort or order", () => {
+            expect(
+                parse({ sortBy: "deaths", order: "desc", cursor })
+            ).toHaveProperty("error");
+            expect(
+                parse({ sortBy: "kills", order: "asc", cursor })
+            ).toHaveProperty("error");
+        });
+
+        it("rejects a value the sort column can't hold", () => {
+            const encode = (sortBy: "kills" | "kda", value: string) =>
+                encodeMatchCursor({
+                    sortBy,
+                    order: "desc",
+                    value,
+                    matchId: "NA1_123",
+                });
+
+            expect(
+                parse({ sortBy: "kills", cursor: encode("kills", "1.5") })
+            ).toHaveProperty("error");
+            expect(
+                parse({
+                    sortBy: "kills",
+                    cursor: encode("kills", "99999999999"),
+                })
+            ).toHaveProperty("error");
+            expect(
+                parse({ sortBy: "kda", cursor: encode("kda", "abc") })
+            ).toHaveProperty("error");
+            expect(
+                parse({ sortBy: "kda", cursor: encode("kda", "3.25") })
+            ).toHaveProperty("options.cursor.value", "3.25");
+        });
+
+        it("rejects a cursor that isn't encoded JSON", () => {
+            expect(
+                parse({ sortBy: "kills", cursor: "not-a-cursor" })
+            ).toHaveProperty("error");
+        });
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { getPatchFromVersion, isRemake } from "../../utils/processing.js";
+import { RiotMatchResponse, RiotParticipant } from "../../types/riot.js";
+
+describe("getPatchFromVersion", () => {
+    it("keeps the major and minor parts of a game version", () => {
+        expect(getPatchFromVersion("14.20.615.1234")).toBe("14.20");
+        expect(getPatchFromVersion("25.1.678.9")).toBe("25.1");
+    });
+
+    it("leaves a version that is already a patch unchanged", () => {
+        expect(getPatchFromVersion("14.20")).toBe("14.20");
+    });
+});
+
+describe("isRemake", () => {
+    function match(
+        gameDuration: number,
+        endOfGameResult = "GameComplete"
+    ): RiotMatchResponse {
+        return {
+            info: { gameDuration, endOfGameResult },
+        } as unknown as RiotMatchResponse;
+    }
+
+    function participant(gameEndedInEarlySurrender = false): RiotParticipant {
+        return { gameEndedInEarlySurrender } as unknown as RiotParticipant;
+    }
+
+    it("treats a completed game of normal length as a real game", () => {
+        expect(isRemake(match(1800), participant())).toBe(false);
+    });
+
+    it("treats an early surrender as a remake", () => {
+        expect(isRemake(match(200), participant(true))).toBe(true);
+    });
+
+    it("treats games shorter than four minutes as remakes", () => {
+        expect(isRemake(match(239), participant())).toBe(true);
+        expect(isRemake(match(240), participant())).toBe(false);
+    });
+
+    it("treats games that didn't complete as remakes", () => {
+        expect(isRemake(match(1800, "Abort_Unexpected"), participant())).toBe(
+            true
+        );
+    });
+});
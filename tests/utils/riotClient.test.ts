@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { RateLimitBucket } from "../../utils/riotClient.js";
+
+describe("RateLimitBucket", () => {
+    it("allows requests while every window has room", () => {
+        const bucket = new RateLimitBucket("2:1,5:10");
+        bucket.record(0);
+
+        expect(bucket.getDelay(100)).toBe(0);
+    });
+
+    it("waits for the oldest request to leave a full window", () => {
+        const bucket = new RateLimitBucket("2:1");
+        bucket.record(0);
+        bucket.record(200);
+
+        expect(bucket.getDelay(500)).toBe(500);
+        expect(bucket.getDelay(1000)).toBe(0);
+    });
+
+    it("uses the longest delay across windows", () => {
+        const bucket = new RateLimitBucket("10:1,3:10");
+        bucket.record(0);
+        bucket.record(1000);
+        bucket.record(2000);
+
+        expect(bucket.getDelay(2500)).toBe(7500);
+    });
+
+    it("has no delay without known limits", () => {
+        const bucket = new RateLimitBucket();
+        for (let i = 0; i < 100; i++) bucket.record(i);
+
+        expect(bucket.getDelay(100)).toBe(0);
+    });
+
+    it("honours a block until it expires", () => {
+        const bucket = new RateLimitBucket("100:1");
+        bucket.block(5000);
+
+        expect(bucket.getDelay(1000)).toBe(4000);
+        expect(bucket.getDelay(5000)).toBe(0);
+    });
+
+    it("pads its history up to the counts Riot reports", () => {
+        const bucket = new RateLimitBucket();
+        bucket.sync("3:60", "3:60");
+
+        expect(bucket.getDelay(Date.now())).toBeGreaterThan(0);
+    });
+
+    it("ignores malformed limit entries", () => {
+        const bucket = new RateLimitBucket("abc,1:0,1:1");
+        bucket.record(0);
+
+        expect(bucket.getDelay(500)).toBe(500);
+    });
+});
@@ -6,3 +6,4 @@ export * from "./guilds.js";
 export * from "./summoners.js";
 export * from "./matches.js";
 export * from "./riot.js";
+export * from "./ranks.js";
@@ -14,3 +14,52 @@ export interface MatchData {
 export interface ProcessedMatchData extends MatchData {
     summoner_puuid: string;
 }
+
+/**
+ * Optional filters accepted by the stats, reports, rankings, matches and
+ * hours endpoints on top of their date range
+ */
+export interface MatchFilter {
+    patch?: string; // Only this patch, e.g. "14.20"
+    sincePatch?: string; // This patch and every later one
+    includeRemakes?: boolean; // Remakes are excluded unless set
+}
+
+export type MatchSortKey =
+    | "game_start_timestamp"
+    | "game_duration"
+    | "kills"
+    | "deaths"
+    | "assists"
+    | "kda"
+    | "damage_to_champions";
+
+/**
+ * Position after the last row of a page: its sort value and match ID, along
+ * with the sort it was made for
+ */
+export interface MatchCursor {
+    sortBy: MatchSortKey;
+    order: "asc" | "desc";
+    value: string;
+    matchId: string;
+}
+
+/**
+ * Paging, filtering and projection options for match listings
+ */
+export interface MatchListOptions {
+    champion?: string; // Champion name (case-insensitive) or ID
+    result?: "win" | "loss";
+    minDuration?: number; // Seconds
+    sortBy: MatchSortKey;
+    order: "asc" | "desc";
+    limit: number;
+    cursor?: MatchCursor;
+    fields?: string[]; // Columns to return; every column when unset
+}
+
+/**
+ * "full" adds distribution stats (median, spread, percentiles) to averages
+ */
+export type StatsDetail = "summary" | "full";
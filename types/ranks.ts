@@ -0,0 +1,12 @@
+/**
+ * Rank related types
+ */
+
+/**
+ * Position after the last event of a page. Events are ordered by creation
+ * time, then ID to break ties between events created together.
+ */
+export interface RankEventCursor {
+    createdAt: Date;
+    id: string;
+}
@@ -22,6 +22,11 @@ export interface RiotParticipantChallenges {
 
 export interface RiotParticipant {
     puuid: string;
+    participantId?: number;
+    riotIdGameName?: string;
+    riotIdTagline?: string;
+    teamId: number;
+    teamPosition?: string;
     championId: number;
     championName: string;
     win: boolean;
@@ -29,10 +34,14 @@ export interface RiotParticipant {
     deaths: number;
     assists: number;
     gameEndedInSurrender: boolean;
+    gameEndedInEarlySurrender?: boolean;
     totalDamageDealtToChampions: number;
     enemyMissingPings: number;
     assistMePings: number;
     visionScore?: number;
+    goldEarned?: number;
+    totalMinionsKilled?: number;
+    neutralMinionsKilled?: number;
     controlWardsPlaced: number;
     placement?: number;
     subteamPlacement?: number;
@@ -75,3 +84,50 @@ export interface RiotMatchResponse {
     metadata: RiotMatchMetadata;
     info: RiotMatchInfo;
 }
+
+export interface RiotLeagueEntry {
+    leagueId: string;
+    puuid: string;
+    queueType: string;
+    tier: string;
+    rank: string;
+    leaguePoints: number;
+    wins: number;
+    losses: number;
+    hotStreak: boolean;
+    veteran: boolean;
+    freshBlood: boolean;
+    inactive: boolean;
+}
+
+export interface RiotChampionMastery {
+    puuid: string;
+    championId: number;
+    championLevel: number;
+    championPoints: number;
+    lastPlayTime: number;
+    championPointsSinceLastLevel: number;
+    championPointsUntilNextLevel: number;
+    [key: string]: any; // Other mastery fields
+}
+
+export interface RiotCurrentGameParticipant {
+    puuid: string | null;
+    championId: number;
+    teamId: number;
+    bot: boolean;
+    [key: string]: any; // Spells, perks, customization objects
+}
+
+export interface RiotCurrentGameInfo {
+    gameId: number;
+    gameMode: string;
+    gameType: string;
+    gameQueueConfigId?: number;
+    gameStartTime: number; // 0 while the game is still loading
+    gameLength: number; // Seconds
+    mapId: number;
+    platformId: string;
+    participants: RiotCurrentGameParticipant[];
+    [key: string]: any; // Bans, observers
+}
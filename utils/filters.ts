@@ -0,0 +1,257 @@
+import {
+    MatchCursor,
+    MatchFilter,
+    MatchListOptions,
+    MatchSortKey,
+    StatsDetail,
+} from "../types/matches.js";
+import { RankEventCursor } from "../types/ranks.js";
+
+const PATCH_PATTERN = /^\d+\.\d+$/;
+
+/**
+ * Reads the shared match filters (`patch`, `sincePatch`, `includeRemakes`)
+ * from a request query.
+ */
+export function parseMatchFilter(query: {
+    patch?: unknown;
+    sincePatch?: unknown;
+    includeRemakes?: unknown;
+}): { filter: MatchFilter } | { error: string } {
+    const filter: MatchFilter = {};
+
+    for (const key of ["patch", "sincePatch"] as const) {
+        const value = query[key];
+        if (value === undefined || value === "") continue;
+
+        if (typeof value !== "string" || !PATCH_PATTERN.test(value)) {
+            return {
+                error: `Invalid ${key}. Use a major.minor patch such as 14.20`,
+            };
+        }
+        filter[key] = value;
+    }
+
+    if (filter.patch && filter.sincePatch) {
+        return { error: "Use either patch or sincePatch, not both" };
+    }
+
+    const { includeRemakes } = query;
+    if (includeRemakes !== undefined && includeRemakes !== "") {
+        if (includeRemakes !== "true" && includeRemakes !== "false") {
+            return { error: "Invalid includeRemakes. Use true or false" };
+        }
+        if (includeRemakes === "true") {
+            filter.includeRemakes = true;
+        }
+    }
+
+    return { filter };
+}
+
+/**
+ * Reads `detail` from a request query; null when it isn't a known level.
+ */
+export function parseStatsDetail(value: unknown): StatsDetail | null {
+    if (value === undefined || value === "") return "summary";
+    return value === "summary" || value === "full" ? value : null;
+}
+
+export const MATCH_SORT_KEYS: MatchSortKey[] = [
+    "game_start_timestamp",
+    "game_duration",
+    "kills",
+    "deaths",
+    "assists",
+    "kda",
+    "damage_to_champions",
+];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export function encodeMatchCursor(cursor: MatchCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const MAX_INT_COLUMN = 2147483647;
+
+// kda is fractional, game_start_timestamp a BigInt and the rest Int columns
+function isValidSortValue(sortBy: MatchSortKey, value: string): boolean {
+    if (sortBy === "kda") {
+        return value !== "" && Number.isFinite(Number(value));
+    }
+    if (!INTEGER_PATTERN.test(value)) {
+        return false;
+    }
+    return (
+        sortBy === "game_start_timestamp" ||
+        Math.abs(Number(value)) <= MAX_INT_COLUMN
+    );
+}
+
+/**
+ * Decodes a cursor for the requested sort. Null when it is malformed, was
+ * made for a different sort or holds a value the sort column can't.
+ */
+function decodeMatchCursor(
+    value: string,
+    sortBy: MatchSortKey,
+    order: "asc" | "desc"
+): MatchCursor | null {
+    try {
+        const cursor = JSON.parse(
+            Buffer.from(value, "base64url").toString("utf8")
+        );
+        if (
+            cursor?.sortBy !== sortBy ||
+            cursor?.order !== order ||
+            typeof cursor?.value !== "string" ||
+            typeof cursor?.matchId !== "string"
+        ) {
+            return null;
+        }
+
+        if (!isValidSortValue(sortBy, cursor.value)) {
+            return null;
+        }
+
+        return { sortBy, order, value: cursor.value, matchId: cursor.matchId };
+    } catch {
+        return null;
+    }
+}
+
+export function encodeRankEventCursor(cursor: RankEventCursor): string {
+    return Buffer.from(
+        JSON.stringify({
+            createdAt: cursor.createdAt.toISOString(),
+            id: cursor.id,
+        })
+    ).toString("base64url");
+}
+
+/**
+ * Decodes a rank event cursor. Null when it is malformed.
+ */
+export function decodeRankEventCursor(value: string): RankEventCursor | null {
+    try {
+        const cursor = JSON.parse(
+            Buffer.from(value, "base64url").toString("utf8")
+        );
+        if (
+            typeof cursor?.createdAt !== "string" ||
+            typeof cursor?.id !== "string"
+        ) {
+            return null;
+        }
+
+        const createdAt = new Date(cursor.createdAt);
+        if (isNaN(createdAt.getTime())) {
+            return null;
+        }
+
+        return { createdAt, id: cursor.id };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads the match listing options (`limit`, `cursor`, `sortBy`, `order`,
+ * `champion`, `result`, `minDuration`, `fields`) from a request query.
+ * `columns` are the fields the queue's table can return.
+ */
+export function parseMatchListOptions(
+    query: Record<string, unknown>,
+    columns: readonly string[]
+): { options: MatchListOptions } | { error: string } {
+    const str = (key: string) =>
+        typeof query[key] === "string" && query[key] !== ""
+            ? (query[key] as string)
+            : undefined;
+
+    const options: MatchListOptions = {
+        sortBy: "game_start_timestamp",
+        order: "desc",
+        limit: DEFAULT_PAGE_SIZE,
+    };
+
+    const limit = str("limit");
+    if (limit !== undefined) {
+        const parsed = Number(limit);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+            return {
+                error: `Invalid limit. It must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+            };
+        }
+        options.limit = parsed;
+    }
+
+    const sortBy = str("sortBy");
+    if (sortBy !== undefined) {
+        if (!MATCH_SORT_KEYS.includes(sortBy as MatchSortKey)) {
+            return {
+                error: `Invalid sortBy. Supported values: ${MATCH_SORT_KEYS.join(", ")}`,
+            };
+        }
+        options.sortBy = sortBy as MatchSortKey;
+    }
+
+    const order = str("order");
+    if (order !== undefined) {
+        if (order !== "asc" && order !== "desc") {
+            return { error: "Invalid order. Use asc or desc" };
+        }
+        options.order = order;
+    }
+
+    const cursor = str("cursor");
+    if (cursor !== undefined) {
+        const decoded = decodeMatchCursor(
+            cursor,
+            options.sortBy,
+            options.order
+        );
+        if (!decoded) {
+            return {
+                error: "Invalid cursor. Cursors only work with the sortBy and order they were returned for",
+            };
+        }
+        options.cursor = decoded;
+    }
+
+    options.champion = str("champion");
+
+    const result = str("result");
+    if (result !== undefined) {
+        if (result !== "win" && result !== "loss") {
+            return { error: "Invalid result. Use win or loss" };
+        }
+        options.result = result;
+    }
+
+    const minDuration = str("minDuration");
+    if (minDuration !== undefined) {
+        const parsed = Number(minDuration);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+            return {
+                error: "Invalid minDuration. It must be a non-negative number of seconds",
+            };
+        }
+        options.minDuration = parsed;
+    }
+
+    const fields = str("fields");
+    if (fields !== undefined) {
+        const requested = fields.split(",").map((field) => field.trim());
+        const unknown = requested.filter((field) => !columns.includes(field));
+        if (unknown.length > 0) {
+            return { error: `Unknown fields: ${unknown.join(", ")}` };
+        }
+        options.fields = requested;
+    }
+
+    return { options };
+}
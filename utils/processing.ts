@@ -1,4 +1,5 @@
 import { MatchData, ProcessedMatchData } from "../types/matches.js";
+import { RiotMatchResponse, RiotParticipant } from "../types/riot.js";
 
 const REGION_AREA_MAP: Record<string, "americas" | "asia" | "europe" | "sea"> =
     {
@@ -26,6 +27,26 @@ export function getAreaFromRegion(
     return REGION_AREA_MAP[region];
 }
 
+// "14.20.615.1234" -> "14.20"
+export function getPatchFromVersion(gameVersion: string): string {
+    return gameVersion.split(".").slice(0, 2).join(".");
+}
+
+// Remakes can be voted from 3 minutes in, so anything shorter than this
+// never reached a real game
+const REMAKE_MAX_DURATION_SECONDS = 240;
+
+export function isRemake(
+    matchData: RiotMatchResponse,
+    participant: RiotParticipant
+): boolean {
+    return (
+        participant.gameEndedInEarlySurrender === true ||
+        matchData.info.gameDuration < REMAKE_MAX_DURATION_SECONDS ||
+        matchData.info.endOfGameResult !== "GameComplete"
+    );
+}
+
 export function processMatchData(
     summonerPuuid: string,
     matchData: MatchData
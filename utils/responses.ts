@@ -1,9 +1,17 @@
 import { Response } from "express";
 
+export interface Paging {
+    limit: number;
+    count: number;
+    hasMore: boolean;
+    nextCursor: string | null;
+}
+
 interface SuccessResponse {
     success: true;
     message?: string;
     data?: unknown;
+    paging?: Paging;
 }
 
 interface ErrorResponse {
@@ -15,7 +23,8 @@ export function respondWithSuccess(
     res: Response,
     statusCode: number = 200,
     message?: string,
-    data?: unknown
+    data?: unknown,
+    paging?: Paging
 ): Response {
     const response: SuccessResponse = {
         success: true,
@@ -29,6 +38,10 @@ export function respondWithSuccess(
         response.data = data;
     }
 
+    if (paging) {
+        response.paging = paging;
+    }
+
     return res.status(statusCode).json(response);
 }
 
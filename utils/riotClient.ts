@@ -0,0 +1,254 @@
+import axios from "axios";
+import { logger } from "./logger.js";
+
+const MAX_RETRIES = 3;
+
+// "{routing}" is replaced with the platform or area, so the client can be
+// pointed at a local mock, e.g. RIOT_API_BASE_URL=http://localhost:4010/{routing}
+const DEFAULT_BASE_URL = "https://{routing}.api.riotgames.com";
+
+// Development keys allow 20 requests every second and 100 every two minutes.
+// Used until Riot tells us the real limits through the response headers.
+const DEFAULT_APP_RATE_LIMIT = "20:1,100:120";
+
+interface RateLimitWindow {
+    limit: number;
+    windowMs: number;
+}
+
+function parseRateLimitHeader(header: string): RateLimitWindow[] {
+    return header
+        .split(",")
+        .map((part) => part.split(":").map(Number))
+        .filter(([limit, seconds]) => limit > 0 && seconds > 0)
+        .map(([limit, seconds]) => ({ limit, windowMs: seconds * 1000 }));
+}
+
+function parseRateLimitCounts(header: string): Map<number, number> {
+    const counts = new Map<number, number>();
+    header.split(",").forEach((part) => {
+        const [count, seconds] = part.split(":").map(Number);
+        if (!isNaN(count) && seconds > 0) {
+            counts.set(seconds * 1000, count);
+        }
+    });
+    return counts;
+}
+
+/**
+ * Sliding-window limiter for one set of Riot rate limits
+ * (either the app limit or a single method limit on one routing value).
+ */
+export class RateLimitBucket {
+    private windows: RateLimitWindow[];
+    private timestamps: number[] = [];
+    private blockedUntil = 0;
+
+    constructor(limitHeader?: string) {
+        this.windows = limitHeader ? parseRateLimitHeader(limitHeader) : [];
+    }
+
+    getDelay(now: number): number {
+        let delay = Math.max(0, this.blockedUntil - now);
+
+        for (const window of this.windows) {
+            const recent = this.timestamps.filter(
+                (timestamp) => timestamp > now - window.windowMs
+            );
+            if (recent.length >= window.limit) {
+                const oldest = recent[recent.length - window.limit];
+                delay = Math.max(delay, oldest + window.windowMs - now);
+            }
+        }
+
+        return delay;
+    }
+
+    record(now: number): void {
+        this.timestamps.push(now);
+
+        const longestWindow = Math.max(
+            0,
+            ...this.windows.map((window) => window.windowMs)
+        );
+        this.timestamps = this.timestamps.filter(
+            (timestamp) => timestamp > now - longestWindow
+        );
+    }
+
+    sync(limitHeader?: string, countHeader?: string): void {
+        if (limitHeader) {
+            this.windows = parseRateLimitHeader(limitHeader);
+        }
+        if (!countHeader) return;
+
+        // Riot may have seen requests we didn't (restarts, other processes),
+        // so pad our history up to the count it reports for each window.
+        const now = Date.now();
+        for (const [windowMs, count] of parseRateLimitCounts(countHeader)) {
+            const known = this.timestamps.filter(
+                (timestamp) => timestamp > now - windowMs
+            ).length;
+            for (let i = known; i < count; i++) {
+                this.timestamps.push(now);
+            }
+        }
+    }
+
+    block(untilMs: number): void {
+        this.blockedUntil = Math.max(this.blockedUntil, untilMs);
+    }
+}
+
+const appBuckets = new Map<string, RateLimitBucket>();
+const methodBuckets = new Map<string, RateLimitBucket>();
+const routingQueues = new Map<string, Promise<void>>();
+
+function getBucket(
+    buckets: Map<string, RateLimitBucket>,
+    key: string,
+    defaultLimit?: string
+): RateLimitBucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+        bucket = new RateLimitBucket(defaultLimit);
+        buckets.set(key, bucket);
+    }
+    return bucket;
+}
+
+function getRiotBaseUrl(routing: string): string {
+    const template = process.env.RIOT_API_BASE_URL || DEFAULT_BASE_URL;
+    return template.replace("{routing}", routing).replace(/\/$/, "");
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Waits until both the app and method limits for this routing value have
+ * room for one more request. Requests on the same routing value are queued
+ * so they are released in order.
+ */
+async function acquire(routing: string, method: string): Promise<void> {
+    const previous = routingQueues.get(routing) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    routingQueues.set(routing, previous.then(() => current));
+
+    await previous;
+
+    try {
+        const appBucket = getBucket(appBuckets, routing, DEFAULT_APP_RATE_LIMIT);
+        const methodBucket = getBucket(methodBuckets, `${routing}:${method}`);
+
+        let delay = Math.max(
+            appBucket.getDelay(Date.now()),
+            methodBucket.getDelay(Date.now())
+        );
+        while (delay > 0) {
+            await sleep(delay);
+            delay = Math.max(
+                appBucket.getDelay(Date.now()),
+                methodBucket.getDelay(Date.now())
+            );
+        }
+
+        const now = Date.now();
+        appBucket.record(now);
+        methodBucket.record(now);
+    } finally {
+        release();
+    }
+}
+
+function syncBuckets(
+    routing: string,
+    method: string,
+    headers: Record<string, any>
+): void {
+    getBucket(appBuckets, routing, DEFAULT_APP_RATE_LIMIT).sync(
+        headers["x-app-rate-limit"],
+        headers["x-app-rate-limit-count"]
+    );
+    getBucket(methodBuckets, `${routing}:${method}`).sync(
+        headers["x-method-rate-limit"],
+        headers["x-method-rate-limit-count"]
+    );
+}
+
+function getRetryAfterMs(headers: Record<string, any>, attempt: number): number {
+    const retryAfter = parseInt(headers["retry-after"], 10);
+    if (!isNaN(retryAfter)) {
+        return retryAfter * 1000;
+    }
+    return 2 ** attempt * 1000;
+}
+
+/**
+ * GET a Riot API endpoint, staying under the app and method rate limits for
+ * the given routing value (platform like "na1" or area like "americas").
+ * 429 and 503 responses are retried after Retry-After; other errors are
+ * rethrown as-is so callers can still inspect `error.response.status`.
+ *
+ * @param routing - Platform or regional routing value
+ * @param method - Riot method name, used to track method rate limits
+ * @param path - Request path starting with "/"
+ */
+export async function riotGet<T>(
+    routing: string,
+    method: string,
+    path: string
+): Promise<T> {
+    const url = `${getRiotBaseUrl(routing)}${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+        await acquire(routing, method);
+
+        try {
+            const response = await axios.get<T>(url, {
+                headers: { "X-Riot-Token": process.env.RIOT_API_KEY ?? "" },
+            });
+            syncBuckets(routing, method, response.headers);
+            return response.data;
+        } catch (error) {
+            if (!axios.isAxiosError(error) || !error.response) {
+                throw error;
+            }
+
+            const { status, headers } = error.response;
+            syncBuckets(routing, method, headers);
+
+            if ((status !== 429 && status !== 503) || attempt >= MAX_RETRIES) {
+                throw error;
+            }
+
+            const retryAfterMs = getRetryAfterMs(headers, attempt);
+            const limitType = headers["x-rate-limit-type"];
+            if (limitType === "method") {
+                getBucket(methodBuckets, `${routing}:${method}`).block(
+                    Date.now() + retryAfterMs
+                );
+            } else {
+                getBucket(appBuckets, routing, DEFAULT_APP_RATE_LIMIT).block(
+                    Date.now() + retryAfterMs
+                );
+            }
+
+            logger.warn(
+                `Utils > riotClient > ${status} from ${method} on ${routing}, retrying in ${retryAfterMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`
+            );
+        }
+    }
+}
+
+/**
+ * HTTP status of a failed Riot request, or null for non-HTTP errors.
+ */
+export function getRiotStatusCode(error: unknown): number | null {
+    if (axios.isAxiosError(error) && error.response) {
+        return error.response.status;
+    }
+    return null;
+}